@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The listen relay opens WebSockets from route handlers; load `ws` from node_modules unbundled
+  serverExternalPackages: ["ws"],
 };
 
 export default nextConfig;
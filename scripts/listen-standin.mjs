@@ -0,0 +1,45 @@
+// Local stand-in for a VAPI listen WebSocket, for trying the listen relay without a live call.
+// Streams a 16 kHz mono 440 Hz tone as 20ms PCM frames plus a JSON message every few seconds,
+// then closes with 1000 after DURATION_SECONDS like VAPI does when a call ends.
+//
+//   npm run listen:standin
+//   VAPI_MONITOR_ALLOWED_HOSTS=localhost:8787 npm run dev
+//   curl -N 'http://localhost:3000/api/vapi-listen?url=ws://localhost:8787/listen'
+
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const DURATION_SECONDS = Number(process.env.DURATION_SECONDS ?? 120);
+const SAMPLE_RATE = 16000;
+const FRAME_MS = 20;
+const SAMPLES_PER_FRAME = (SAMPLE_RATE * FRAME_MS) / 1000;
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket, request) => {
+  console.log(`[listen-standin] client connected: ${request.url}`);
+  let sample = 0;
+  let frames = 0;
+  const totalFrames = (DURATION_SECONDS * 1000) / FRAME_MS;
+
+  const timer = setInterval(() => {
+    const frame = Buffer.alloc(SAMPLES_PER_FRAME * 2);
+    for (let i = 0; i < SAMPLES_PER_FRAME; i++, sample++) {
+      frame.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 440 * sample) / SAMPLE_RATE) * 8000), i * 2);
+    }
+    socket.send(frame, { binary: true });
+
+    frames++;
+    if (frames % 150 === 0) {
+      socket.send(JSON.stringify({ type: 'transcript', role: 'assistant', transcript: `Stand-in message at ${frames * FRAME_MS / 1000}s` }));
+    }
+    if (frames >= totalFrames) socket.close(1000, 'call ended');
+  }, FRAME_MS);
+
+  socket.on('close', () => {
+    clearInterval(timer);
+    console.log('[listen-standin] client disconnected');
+  });
+});
+
+console.log(`[listen-standin] listening on ws://localhost:${PORT}/listen for ${DURATION_SECONDS}s per connection`);
@@ -0,0 +1,55 @@
+// Forwards live call control commands to a call's `monitor.controlUrl`.
+// The browser posts `{ controlUrl, command }`; the URL must be a `/control` URL on a VAPI monitor host
+// (or one listed in VAPI_MONITOR_ALLOWED_HOSTS) so this route can't be used to reach arbitrary servers.
+
+import { NextResponse } from 'next/server'
+import { validateControlCommand } from '@/lib/vapi-control'
+import { parseMonitorUrl } from '@/lib/vapi-proxy'
+
+const UPSTREAM_TIMEOUT_MS = 10000
+
+export async function POST(request: Request) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+
+  const controlUrl = parseMonitorUrl(body?.controlUrl, 'control')
+  if (!controlUrl) {
+    console.warn('[vapi-control] blocked control URL:', body?.controlUrl)
+    return NextResponse.json({ error: 'controlUrl is not an allowed VAPI control URL' }, { status: 403 })
+  }
+
+  const commandError = validateControlCommand(body?.command)
+  if (commandError) {
+    return NextResponse.json({ error: commandError }, { status: 400 })
+  }
+
+  try {
+    const upstream = await fetch(controlUrl, {
+      method: 'POST',
+      // Control URLs are capability URLs; the API key is never sent with them
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body.command),
+      cache: 'no-store',
+      signal: AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    })
+
+    const text = await upstream.text()
+    console.log('[vapi-control] forwarded command:', body.command.type, upstream.status)
+    return new NextResponse(text || null, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      headers: { 'content-type': upstream.headers.get('content-type') || 'text/plain' },
+    })
+  } catch (err) {
+    const timedOut = err instanceof Error && err.name === 'TimeoutError'
+    console.error('[vapi-control] control request failed:', body.command.type, err)
+    return NextResponse.json(
+      { error: timedOut ? `control URL did not answer within ${UPSTREAM_TIMEOUT_MS}ms` : 'failed to reach control URL' },
+      { status: timedOut ? 504 : 502 }
+    )
+  }
+}
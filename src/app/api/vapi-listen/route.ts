@@ -0,0 +1,93 @@
+// Re-streams a call's listen WebSocket to the browser as Server-Sent Events.
+// GET ?url=<listenUrl> streams `status`, `audio` (base64 PCM) and `message` (JSON-encoded text) events.
+// The URL must be a VAPI monitor host (or one listed in VAPI_MONITOR_ALLOWED_HOSTS).
+// GET without `url` lists the active relays and their viewer counts.
+
+import { NextResponse } from 'next/server'
+import { ListenRelayLimitError, listListenRelays, subscribeToListenStream, type RelayEvent } from '@/lib/listen-relay'
+import { parseMonitorUrl } from '@/lib/vapi-proxy'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Comment lines keep proxies from closing a quiet stream
+const KEEP_ALIVE_MS = 15000
+
+export async function GET(request: Request) {
+  const param = new URL(request.url).searchParams.get('url')
+  if (!param) {
+    return NextResponse.json({ relays: listListenRelays() })
+  }
+
+  const listenUrl = parseMonitorUrl(param, 'listen')
+  if (!listenUrl) {
+    console.warn('[vapi-listen] blocked listen URL:', param)
+    return NextResponse.json({ error: 'url is not an allowed VAPI listen URL' }, { status: 403 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let unsubscribe = () => {}
+      const keepAlive = setInterval(() => controller.enqueue(encoder.encode(': keep-alive\n\n')), KEEP_ALIVE_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(keepAlive)
+        unsubscribe()
+      }
+      const end = () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      }
+      const send = (event: string, data: string) => {
+        if (!closed) controller.enqueue(encoder.encode(`event: ${event}\ndata: ${data}\n\n`))
+      }
+
+      const onEvent = (event: RelayEvent) => {
+        if (event.type === 'audio') {
+          send('audio', event.data.toString('base64'))
+        } else if (event.type === 'message') {
+          send('message', JSON.stringify(event.data))
+        } else {
+          send('status', JSON.stringify({ state: event.state, code: event.code, message: event.message }))
+          if (event.state === 'closed') end()
+        }
+      }
+
+      try {
+        unsubscribe = subscribeToListenStream(listenUrl, onEvent)
+      } catch (err) {
+        const message = err instanceof ListenRelayLimitError ? err.message : 'failed to open the listen WebSocket'
+        console.error('[vapi-listen] subscribe failed:', err)
+        // 1013: try again later
+        send('status', JSON.stringify({ state: 'closed', code: 1013, message }))
+        end()
+        return
+      }
+
+      request.signal.addEventListener('abort', end)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx-style proxies
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
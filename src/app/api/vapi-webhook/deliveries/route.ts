@@ -0,0 +1,41 @@
+// Status of webhook forwarding to downstream services.
+// GET returns per-destination counts and recent deliveries (?state=dead for the dead-letter list).
+// POST { id, action: 'retry' | 'dismiss' } retries or removes a dead letter.
+
+import { NextResponse } from 'next/server'
+import {
+  dismissWebhookDelivery,
+  getDeliveryStats,
+  listWebhookDeliveries,
+  retryWebhookDelivery,
+  type DeliveryState,
+} from '@/lib/vapi-webhook-forwarding'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const DELIVERY_STATES: DeliveryState[] = ['pending', 'retrying', 'delivered', 'dead']
+
+export async function GET(request: Request) {
+  const param = new URL(request.url).searchParams.get('state')
+  const state = DELIVERY_STATES.find(s => s === param)
+  return NextResponse.json({ destinations: getDeliveryStats(), deliveries: listWebhookDeliveries(state) })
+}
+
+export async function POST(request: Request) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+  if (typeof body?.id !== 'string' || !['retry', 'dismiss'].includes(body.action)) {
+    return NextResponse.json({ error: "id and action ('retry' or 'dismiss') are required" }, { status: 400 })
+  }
+
+  const done = body.action === 'retry' ? retryWebhookDelivery(body.id) : dismissWebhookDelivery(body.id)
+  if (!done) {
+    return NextResponse.json({ error: 'no dead-lettered delivery with that id' }, { status: 404 })
+  }
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,60 @@
+// Replays stored webhook events.
+// POST { eventIds, target: 'local' | <url from VAPI_WEBHOOK_REPLAY_TARGETS>, resign?, bodies?: { [eventId]: string } }
+// returns { replays } with one record per event. GET returns past replays and the available targets.
+
+import { NextResponse } from 'next/server'
+import { getWebhookEvents } from '@/lib/vapi-webhook-store'
+import { getReplayTargets, listWebhookReplays, replayWebhookEvents, WebhookReplayError } from '@/lib/vapi-webhook-replay'
+import { getWebhookAuthConfig } from '@/lib/vapi-webhook-auth'
+
+export const runtime = 'nodejs'
+
+const MAX_EVENTS_PER_REPLAY = 50
+
+export async function GET() {
+  return NextResponse.json({
+    replays: listWebhookReplays(),
+    targets: getReplayTargets(),
+    canResign: getWebhookAuthConfig().secrets.length > 0,
+  })
+}
+
+export async function POST(request: Request) {
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ error: 'invalid JSON body' }, { status: 400 })
+  }
+
+  const eventIds = Array.isArray(body?.eventIds) ? body.eventIds.filter((id: unknown) => typeof id === 'string') : []
+  if (eventIds.length === 0) {
+    return NextResponse.json({ error: 'eventIds must list at least one event' }, { status: 400 })
+  }
+  if (eventIds.length > MAX_EVENTS_PER_REPLAY) {
+    return NextResponse.json({ error: `at most ${MAX_EVENTS_PER_REPLAY} events can be replayed at once` }, { status: 400 })
+  }
+  if (typeof body.target !== 'string') {
+    return NextResponse.json({ error: 'target is required' }, { status: 400 })
+  }
+  const bodies = body.bodies && typeof body.bodies === 'object' ? body.bodies : undefined
+  if (bodies && Object.values(bodies).some(value => typeof value !== 'string')) {
+    return NextResponse.json({ error: 'bodies must map event IDs to strings' }, { status: 400 })
+  }
+
+  try {
+    const events = await getWebhookEvents(eventIds)
+    if (events.length < eventIds.length) {
+      const found = new Set(events.map(e => e.id))
+      return NextResponse.json({ error: 'some events are no longer stored', missing: eventIds.filter((id: string) => !found.has(id)) }, { status: 404 })
+    }
+    const replays = await replayWebhookEvents(events, { target: body.target, resign: Boolean(body.resign), bodies })
+    return NextResponse.json({ replays })
+  } catch (err) {
+    if (err instanceof WebhookReplayError) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+    console.error('[vapi-webhook] replay error:', err)
+    return NextResponse.json({ error: 'server error' }, { status: 500 })
+  }
+}
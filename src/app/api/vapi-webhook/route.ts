@@ -1,11 +1,13 @@
 // Example Next.js App Router API route to receive Vapi Server URL events
 // Place this at `src/app/api/vapi-webhook/route.ts`
 
-import { NextResponse } from 'next/server'
+import { NextResponse, after } from 'next/server'
 import { pushWebhookEvent, listWebhookEvents } from '@/lib/vapi-webhook-store'
-import crypto from 'crypto'
-
-const SIGNATURE_HEADER = 'x-vapi-signature'
+import { getWebhookAuthConfig, redactWebhookHeaders, verifyWebhookRequest } from '@/lib/vapi-webhook-auth'
+import { ACKNOWLEDGEMENT, dispatchWebhookMessage, getServerMessage } from '@/lib/vapi-webhook-dispatcher'
+import { getWebhookHandlers } from '@/lib/vapi-webhook-handlers'
+import { parseWebhookQuery } from '@/lib/vapi-webhook-query'
+import { forwardWebhookEvent } from '@/lib/vapi-webhook-forwarding'
 
 function safeJsonParse(text: string) {
   try {
@@ -15,20 +17,6 @@ function safeJsonParse(text: string) {
   }
 }
 
-function verifySignature(secret: string | undefined, body: string, signatureHeader: string | null) {
-  if (!secret || !signatureHeader) return false
-  try {
-    // HMAC SHA256 hex signature expected
-    const hmac = crypto.createHmac('sha256', secret)
-    hmac.update(body)
-    const digest = hmac.digest('hex')
-    // simple equality; in production use constant-time compare
-    return digest === signatureHeader
-  } catch {
-    return false
-  }
-}
-
 export async function POST(request: Request) {
   try {
     const contentType = request.headers.get('content-type') || ''
@@ -37,27 +25,49 @@ export async function POST(request: Request) {
     // compute size
     const size = rawText.length
 
+    // Verify against the raw body before anything else; in enforce mode unverified requests are not stored
+    const authConfig = getWebhookAuthConfig()
+    const auth = verifyWebhookRequest(request.headers, rawText, authConfig)
+    if (!auth.verified && authConfig.mode === 'enforce') {
+      console.warn('[vapi-webhook] rejected unverified request:', auth.reason)
+      return NextResponse.json({ error: 'unauthorized' }, { status: 401 })
+    }
+
     // parse JSON if possible
     const parsed = contentType.includes('application/json') ? safeJsonParse(rawText) : safeJsonParse(rawText)
 
     const payload = parsed ?? { raw: rawText }
 
-    // Optional signature verification using env var
-    // NOTE: in this project many envs are exposed client-side. Prefer server-only env var in real deployment.
-    const secret = process.env.NEXT_PUBLIC_VAPI_WEBHOOK_SECRET || process.env.VAPI_WEBHOOK_SECRET
-    const signatureHeader = request.headers.get(SIGNATURE_HEADER)
-    const verified = verifySignature(secret, rawText, signatureHeader)
+    // Messages such as assistant-request and tool-calls are answered by the configured handlers;
+    // everything else gets the plain acknowledgement. Handlers run tools and reveal assistant IDs and
+    // transfer numbers, so once secrets are configured only verified requests reach them
+    const trusted = auth.verified || authConfig.secrets.length === 0
+    const { eventType, handled, response } = trusted
+      ? await dispatchWebhookMessage(parsed, getWebhookHandlers())
+      : { eventType: getServerMessage(parsed)?.type, handled: false, response: ACKNOWLEDGEMENT }
 
-    const stored = pushWebhookEvent({
-      payload: { receivedHeaders: Object.fromEntries(request.headers), payload },
-      contentType,
-      size,
-      verified,
-    })
+    // Failing to store the event must not cost VAPI its reply
+    let storedId: string | undefined
+    try {
+      const stored = await pushWebhookEvent({
+        payload: { receivedHeaders: redactWebhookHeaders(request.headers), payload },
+        contentType,
+        size,
+        rawBody: rawText,
+        auth,
+        eventType,
+        reply: handled ? response : undefined,
+      })
+      storedId = stored.id
+      console.log('[vapi-webhook] saved event:', stored.id, { eventType, handled, size, contentType, verified: auth.verified, reason: auth.verified ? undefined : auth.reason })
+    } catch (err) {
+      console.error('[vapi-webhook] error storing event:', err)
+    }
 
-    console.log('[vapi-webhook] saved event:', stored.id, { size, contentType, verified })
+    // Fan out to downstream services once VAPI has its reply
+    after(() => forwardWebhookEvent({ eventId: storedId, eventType, body: rawText, contentType, verified: auth.verified }))
 
-    return NextResponse.json({ received: true, id: stored.id }, { status: 200 })
+    return NextResponse.json(handled ? response : { ...response, id: storedId }, { status: 200 })
   } catch (err) {
     console.error('[vapi-webhook] error parsing request:', err)
     return NextResponse.json({ error: 'invalid payload' }, { status: 400 })
@@ -66,13 +76,11 @@ export async function POST(request: Request) {
 
 export async function GET(request: Request) {
   try {
-    const url = new URL(request.url)
-    const limitParam = url.searchParams.get('limit')
-    const sinceParam = url.searchParams.get('since')
-    const limit = limitParam ? Math.min(200, Number(limitParam) || 50) : 100
+    // Filters: eventType, callId, phoneNumber, verified, since, until, q (full text); paging: limit, cursor
+    const query = parseWebhookQuery(new URL(request.url).searchParams)
 
-    const events = listWebhookEvents(limit, sinceParam || undefined)
-    return NextResponse.json({ events }, { status: 200 })
+    const { events, nextCursor } = await listWebhookEvents(query)
+    return NextResponse.json({ events, nextCursor }, { status: 200 })
   } catch (err) {
     console.error('[vapi-webhook] error listing events:', err)
     return NextResponse.json({ error: 'server error' }, { status: 500 })
@@ -0,0 +1,89 @@
+// Streams webhook events to the browser as Server-Sent Events as soon as POST /api/vapi-webhook stores them.
+// Each `webhook` event carries the stored event as JSON and its ID as the SSE `id`, so a reconnecting
+// EventSource resumes after the last event it saw (Last-Event-ID header, or `?lastEventId=` for a new one).
+// Without an ID, or when that event was already dropped, the latest `limit` events are sent first.
+// Accepts the same filters as GET /api/vapi-webhook; only matching events are streamed.
+
+import { listWebhookEventsAfter, subscribeToWebhookEvents, type WebhookEvent } from '@/lib/vapi-webhook-store'
+import { matchesWebhookQuery, parseWebhookQuery } from '@/lib/vapi-webhook-query'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+// Comment lines keep proxies from closing a quiet stream
+const KEEP_ALIVE_MS = 15000
+// How long the browser waits before reconnecting a dropped stream
+const RETRY_MS = 3000
+
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const lastEventId = request.headers.get('last-event-id') || url.searchParams.get('lastEventId') || undefined
+  const query = parseWebhookQuery(url.searchParams)
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      const write = (text: string) => {
+        if (!closed) controller.enqueue(encoder.encode(text))
+      }
+      const sendEvent = (evt: WebhookEvent) => write(`event: webhook\nid: ${evt.id}\ndata: ${JSON.stringify(evt)}\n\n`)
+
+      // Subscribe before reading the backlog so nothing stored in between is missed
+      const sent = new Set<string>()
+      let pending: WebhookEvent[] | null = []
+      const unsubscribe = subscribeToWebhookEvents((evt) => {
+        if (!matchesWebhookQuery(evt, query)) return
+        if (pending) pending.push(evt)
+        else sendEvent(evt)
+      })
+      const keepAlive = setInterval(() => write(': keep-alive\n\n'), KEEP_ALIVE_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(keepAlive)
+        unsubscribe()
+      }
+      request.signal.addEventListener('abort', () => {
+        cleanup()
+        try {
+          controller.close()
+        } catch {
+          // Already closed by the client
+        }
+      })
+
+      write(`retry: ${RETRY_MS}\n\n`)
+      try {
+        const { events, resumed } = await listWebhookEventsAfter(lastEventId, query)
+        write(`event: sync\ndata: ${JSON.stringify({ resumed, count: events.length })}\n\n`)
+        events.forEach(evt => {
+          sent.add(evt.id)
+          sendEvent(evt)
+        })
+      } catch (err) {
+        // Live events still flow; the client keeps whatever it already has
+        console.error('[vapi-webhook] error loading stream backlog:', err)
+      }
+      const queued = pending
+      pending = null
+      queued.filter(evt => !sent.has(evt.id)).forEach(sendEvent)
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Disable response buffering in nginx-style proxies
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,55 @@
+// Server-side proxy for the VAPI REST API.
+// The browser calls `/api/vapi/<endpoint>` and this route forwards it with the server-only VAPI_API_KEY.
+
+import { NextResponse } from 'next/server'
+import { buildVapiEndpoint, getVapiServerConfig, isAllowedVapiRequest, pickForwardedHeaders } from '@/lib/vapi-proxy'
+
+type RouteContext = { params: Promise<{ path: string[] }> }
+
+async function proxy(request: Request, context: RouteContext) {
+  const { path } = await context.params
+  const endpoint = buildVapiEndpoint(path || [])
+  const method = request.method.toUpperCase()
+
+  if (!endpoint || !isAllowedVapiRequest(method, endpoint)) {
+    console.warn('[vapi-proxy] blocked request:', method, endpoint ?? path)
+    return NextResponse.json({ error: `${method} ${endpoint ?? '/' + (path || []).join('/')} is not allowed by the VAPI proxy` }, { status: 403 })
+  }
+
+  const { baseUrl, apiKey } = getVapiServerConfig()
+  if (!apiKey) {
+    console.error('[vapi-proxy] VAPI_API_KEY is not configured')
+    return NextResponse.json({ error: 'VAPI_API_KEY is not configured on the server' }, { status: 500 })
+  }
+
+  const search = new URL(request.url).search
+  const body = method === 'GET' || method === 'DELETE' ? undefined : await request.text()
+
+  try {
+    const upstream = await fetch(`${baseUrl}${endpoint}${search}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: body || undefined,
+      cache: 'no-store',
+    })
+
+    // Pass status and body through untouched so the client sees the real VAPI error
+    const text = await upstream.text()
+    return new NextResponse(text || null, {
+      status: upstream.status,
+      statusText: upstream.statusText,
+      headers: pickForwardedHeaders(upstream.headers),
+    })
+  } catch (err) {
+    console.error('[vapi-proxy] upstream request failed:', method, endpoint, err)
+    return NextResponse.json({ error: 'failed to reach VAPI API' }, { status: 502 })
+  }
+}
+
+export const GET = proxy
+export const POST = proxy
+export const PATCH = proxy
+export const DELETE = proxy
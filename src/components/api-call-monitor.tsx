@@ -21,6 +21,13 @@ interface ApiCall {
   error?: any
   success: boolean
   duration?: number
+  attempt?: number
+  maxAttempts?: number
+  retry?: {
+    willRetry: boolean
+    delayMs?: number
+    reason: string
+  }
 }
 
 export function ApiCallMonitor() {
@@ -29,7 +36,7 @@ export function ApiCallMonitor() {
 
   useEffect(() => {
     const handleApiCall = (event: CustomEvent) => {
-      const { request, response, error, success } = event.detail
+      const { request, response, error, success, retry } = event.detail
       
       const apiCall: ApiCall = {
         id: Math.random().toString(36).substr(2, 9),
@@ -42,7 +49,10 @@ export function ApiCallMonitor() {
         body: request.body,
         response: response,
         error: error,
-        success: success
+        success: success,
+        attempt: request.attempt,
+        maxAttempts: request.maxAttempts,
+        retry: retry
       }
 
       setApiCalls(prev => [apiCall, ...prev].slice(0, 20)) // Keep last 20 calls
@@ -108,6 +118,16 @@ export function ApiCallMonitor() {
                     <Badge variant={getStatusColor(call.success, call.response?.status) as any}>
                       {call.success ? call.response?.status || 'Success' : 'Error'}
                     </Badge>
+                    {call.attempt && call.maxAttempts && call.maxAttempts > 1 && (call.attempt > 1 || call.retry) && (
+                      <Badge variant="outline">
+                        Attempt {call.attempt}/{call.maxAttempts}
+                      </Badge>
+                    )}
+                    {call.retry?.willRetry && (
+                      <Badge variant="secondary">
+                        Retrying in {((call.retry.delayMs ?? 0) / 1000).toFixed(1)}s
+                      </Badge>
+                    )}
                     <span className="text-xs text-gray-500">
                       {new Date(call.timestamp).toLocaleTimeString()}
                     </span>
@@ -178,7 +198,12 @@ export function ApiCallMonitor() {
                       ) : call.error && (
                         <div>
                           <h5 className="font-medium text-sm mb-2">❌ Error</h5>
-                          <div className="bg-red-50 p-2 rounded text-xs">
+                          <div className="bg-red-50 p-2 rounded text-xs space-y-2">
+                            {call.retry && (
+                              <div>
+                                <strong>Retry:</strong> {call.retry.reason}
+                              </div>
+                            )}
                             <pre className="bg-white p-2 rounded overflow-x-auto">
                               {JSON.stringify(call.error, null, 2)}
                             </pre>
@@ -0,0 +1,237 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { vapiService } from '@/lib/vapi-service'
+import { isAbortError } from '@/lib/vapi-errors'
+import { useUnmountSignal } from '@/hooks/use-unmount-signal'
+import {
+  EMPTY_ASSISTANT_DRAFT,
+  MODEL_PROVIDERS,
+  TRANSCRIBER_PROVIDERS,
+  VOICE_PROVIDERS,
+  assistantToDraft,
+  draftToAssistantInput,
+  validateAssistantDraft,
+  type AssistantDraft,
+  type AssistantDraftErrors,
+} from '@/lib/assistant-form'
+import type { Assistant } from '@/lib/vapi-types'
+
+interface AssistantEditorProps {
+  /** Assistant being edited; omit to create a new one. */
+  assistant?: Assistant | null
+  onSaved: (assistant: Assistant) => void
+  onDeleted: (assistantId: string) => void
+  onCancel: () => void
+}
+
+export function AssistantEditor({ assistant, onSaved, onDeleted, onCancel }: AssistantEditorProps) {
+  const [draft, setDraft] = useState<AssistantDraft>(assistant ? assistantToDraft(assistant) : EMPTY_ASSISTANT_DRAFT)
+  const [errors, setErrors] = useState<AssistantDraftErrors>({})
+  const [saving, setSaving] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+  const getSignal = useUnmountSignal()
+
+  const isNew = !assistant
+
+  const update = (field: keyof AssistantDraft, value: string) => {
+    setDraft(prev => ({ ...prev, [field]: value }))
+    setErrors(prev => ({ ...prev, [field]: undefined }))
+  }
+
+  const save = async () => {
+    const validation = validateAssistantDraft(draft)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+
+    setSaving(true)
+    try {
+      const input = draftToAssistantInput(draft, assistant ?? undefined)
+
+      console.log(`🤖 ${isNew ? 'Creating' : 'Updating'} Assistant:`, {
+        api: isNew ? 'POST /assistant' : `PATCH /assistant/${assistant.id}`,
+        payload: input
+      })
+
+      const saved = isNew
+        ? await vapiService.createAssistant(input, { signal: getSignal() })
+        : await vapiService.updateAssistant(assistant.id, input, { signal: getSignal() })
+      onSaved(saved)
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Failed to save assistant:', error)
+      alert(`Failed to save assistant: ${error}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const remove = async () => {
+    if (!assistant) return
+    const confirmed = confirm(`Delete assistant "${assistant.name || assistant.id}"? Phone numbers and calls using it will stop working.`)
+    if (!confirmed) return
+
+    setDeleting(true)
+    try {
+      await vapiService.deleteAssistant(assistant.id, { signal: getSignal() })
+      onDeleted(assistant.id)
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Failed to delete assistant:', error)
+      alert(`Failed to delete assistant: ${error}`)
+    } finally {
+      setDeleting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{isNew ? 'New Assistant' : `Edit ${assistant.name || 'Assistant'}`}</CardTitle>
+        <CardDescription>
+          {isNew ? 'Create a VAPI assistant' : <span className="font-mono text-xs">ID: {assistant.id}</span>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Field label="Name" htmlFor="assistant-name" error={errors.name}>
+          <Input
+            id="assistant-name"
+            value={draft.name}
+            onChange={(e) => update('name', e.target.value)}
+            placeholder="Support Agent"
+            aria-invalid={!!errors.name}
+          />
+        </Field>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Model Provider" error={errors.modelProvider}>
+            <ProviderSelect value={draft.modelProvider} options={MODEL_PROVIDERS} onChange={(value) => update('modelProvider', value)} />
+          </Field>
+          <Field label="Model" htmlFor="assistant-model" error={errors.model}>
+            <Input
+              id="assistant-model"
+              value={draft.model}
+              onChange={(e) => update('model', e.target.value)}
+              placeholder="gpt-4o-mini"
+              aria-invalid={!!errors.model}
+            />
+          </Field>
+        </div>
+
+        <Field label="System Prompt" htmlFor="assistant-prompt" error={errors.systemPrompt}>
+          <Textarea
+            id="assistant-prompt"
+            value={draft.systemPrompt}
+            onChange={(e) => update('systemPrompt', e.target.value)}
+            placeholder="You are a helpful phone assistant..."
+            className="min-h-[120px] text-sm"
+          />
+        </Field>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Voice Provider" error={errors.voiceProvider}>
+            <ProviderSelect value={draft.voiceProvider} options={VOICE_PROVIDERS} onChange={(value) => update('voiceProvider', value)} />
+          </Field>
+          <Field label="Voice ID" htmlFor="assistant-voice" error={errors.voiceId}>
+            <Input
+              id="assistant-voice"
+              value={draft.voiceId}
+              onChange={(e) => update('voiceId', e.target.value)}
+              placeholder="pNInz6obpgDQGcFmaJgB"
+              aria-invalid={!!errors.voiceId}
+            />
+          </Field>
+        </div>
+
+        <Field label="First Message" htmlFor="assistant-first-message" error={errors.firstMessage}>
+          <Input
+            id="assistant-first-message"
+            value={draft.firstMessage}
+            onChange={(e) => update('firstMessage', e.target.value)}
+            placeholder="Hello, how can I help you today?"
+          />
+        </Field>
+
+        <div className="grid grid-cols-3 gap-4">
+          <Field label="Transcriber" error={errors.transcriberProvider}>
+            <ProviderSelect value={draft.transcriberProvider} options={TRANSCRIBER_PROVIDERS} onChange={(value) => update('transcriberProvider', value)} />
+          </Field>
+          <Field label="Transcriber Model" htmlFor="assistant-transcriber-model" error={errors.transcriberModel}>
+            <Input
+              id="assistant-transcriber-model"
+              value={draft.transcriberModel}
+              onChange={(e) => update('transcriberModel', e.target.value)}
+              placeholder="nova-2"
+            />
+          </Field>
+          <Field label="Language" htmlFor="assistant-transcriber-language" error={errors.transcriberLanguage}>
+            <Input
+              id="assistant-transcriber-language"
+              value={draft.transcriberLanguage}
+              onChange={(e) => update('transcriberLanguage', e.target.value)}
+              placeholder="en"
+              aria-invalid={!!errors.transcriberLanguage}
+            />
+          </Field>
+        </div>
+
+        <Field label="Server URL (Optional)" htmlFor="assistant-server-url" error={errors.serverUrl}>
+          <Input
+            id="assistant-server-url"
+            value={draft.serverUrl}
+            onChange={(e) => update('serverUrl', e.target.value)}
+            placeholder="https://example.com/api/vapi-webhook"
+            aria-invalid={!!errors.serverUrl}
+          />
+        </Field>
+
+        <div className="flex gap-2">
+          <Button onClick={save} disabled={saving || deleting} className="flex-1">
+            {saving ? 'Saving...' : isNew ? 'Create Assistant' : 'Save Changes'}
+          </Button>
+          <Button variant="outline" onClick={onCancel} disabled={saving || deleting}>
+            Cancel
+          </Button>
+          {!isNew && (
+            <Button variant="destructive" onClick={remove} disabled={saving || deleting}>
+              {deleting ? 'Deleting...' : 'Delete'}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function Field({ label, htmlFor, error, children }: { label: string, htmlFor?: string, error?: string, children: React.ReactNode }) {
+  return (
+    <div>
+      <Label htmlFor={htmlFor} className="mb-1">{label}</Label>
+      {children}
+      {error && <p className="text-xs text-red-600 mt-1">{error}</p>}
+    </div>
+  )
+}
+
+function ProviderSelect({ value, options, onChange }: { value: string, options: string[], onChange: (value: string) => void }) {
+  // Keep providers that aren't in our list (set elsewhere) selectable
+  const all = value && !options.includes(value) ? [value, ...options] : options
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select a provider" />
+      </SelectTrigger>
+      <SelectContent>
+        {all.map((option) => (
+          <SelectItem key={option} value={option}>{option}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
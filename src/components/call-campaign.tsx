@@ -0,0 +1,381 @@
+'use client'
+
+import { useEffect, useState, useSyncExternalStore } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { parseCsv, type CsvTable } from '@/lib/csv'
+import {
+  CallCampaign,
+  buildCampaignRows,
+  coerceMetadataValue,
+  type CampaignColumnMapping,
+  type CampaignRowStatus,
+  type InvalidCampaignRow,
+} from '@/lib/call-campaign'
+import { formatPhoneNumber, type CountryCode } from '@/lib/phone-number'
+import type { Assistant, PhoneNumber } from '@/lib/vapi-types'
+
+// Radix Select doesn't allow an empty item value; NONE stands for "not mapped" (and can't clash with a header)
+const NONE = '__none__'
+const MAX_CONCURRENCY = 10
+
+const STATUS_VARIANTS: Record<CampaignRowStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  queued: 'outline',
+  dialing: 'default',
+  ended: 'secondary',
+  failed: 'destructive',
+  cancelled: 'outline'
+}
+
+interface CallCampaignPanelProps {
+  assistants: Assistant[]
+  phoneNumbers: PhoneNumber[]
+  /** Assistant and from-number selected in the "Make a Call" form. */
+  assistantId: string
+  phoneNumberId: string
+  defaultCountry: CountryCode
+  /** Custom metadata fields from the "Make a Call" form; CSV columns can be mapped onto their keys. */
+  metadataFields: Array<{ key: string, value: string }>
+}
+
+export function CallCampaignPanel({ assistants, phoneNumbers, assistantId, phoneNumberId, defaultCountry, metadataFields }: CallCampaignPanelProps) {
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<CsvTable | null>(null)
+  const [csvError, setCsvError] = useState<string | null>(null)
+  const [mapping, setMapping] = useState<CampaignColumnMapping>({ number: '', metadata: {} })
+  const [concurrency, setConcurrency] = useState('2')
+  const [pacingSeconds, setPacingSeconds] = useState('2')
+  const [invalidRows, setInvalidRows] = useState<InvalidCampaignRow[]>([])
+  const [campaign, setCampaign] = useState<CallCampaign | null>(null)
+
+  const metadataKeys = Array.from(new Set(metadataFields.map(field => field.key.trim()).filter(Boolean)))
+
+  // Stop timers and in-flight requests when the campaign is replaced or the panel unmounts
+  useEffect(() => () => campaign?.dispose(), [campaign])
+
+  const importFile = async (file: File) => {
+    setFileName(file.name)
+    setCsvError(null)
+    setInvalidRows([])
+    try {
+      const parsed = parseCsv(await file.text())
+      if (parsed.headers.length === 0) throw new Error('The file is empty')
+      setTable(parsed)
+      // Guess the obvious columns; everything can be changed below
+      const numberColumn = parsed.headers.find(h => /phone|number|mobile|tel/i.test(h)) || parsed.headers[0]
+      const nameColumn = parsed.headers.find(h => /name/i.test(h) && h !== numberColumn)
+      const metadata: Record<string, string> = {}
+      metadataKeys.forEach(key => {
+        const match = parsed.headers.find(h => h.toLowerCase() === key.toLowerCase())
+        if (match) metadata[key] = match
+      })
+      setMapping({ number: numberColumn, name: nameColumn, metadata })
+    } catch (error) {
+      console.error('Failed to read CSV:', error)
+      setTable(null)
+      setCsvError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const mapMetadata = (key: string, header: string) => {
+    setMapping(prev => {
+      const metadata = { ...prev.metadata }
+      if (header === NONE) delete metadata[key]
+      else metadata[key] = header
+      return { ...prev, metadata }
+    })
+  }
+
+  const startCampaign = () => {
+    if (!table || !mapping.number) return
+    if (!assistantId || !phoneNumberId) {
+      alert('Select an assistant and a from phone number in the "Make a Call" form first')
+      return
+    }
+    const limit = Number(concurrency)
+    const pacing = Number(pacingSeconds)
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CONCURRENCY) {
+      alert(`Concurrent calls must be a whole number between 1 and ${MAX_CONCURRENCY}`)
+      return
+    }
+    if (isNaN(pacing) || pacing < 0) {
+      alert('Pacing must be zero or more seconds')
+      return
+    }
+
+    const formMetadata: Record<string, any> = {}
+    metadataFields.forEach(field => {
+      if (field.key.trim() && field.value.trim()) formMetadata[field.key.trim()] = coerceMetadataValue(field.value)
+    })
+    // Only map metadata keys that still exist in the form
+    const metadata = Object.fromEntries(Object.entries(mapping.metadata).filter(([key]) => metadataKeys.includes(key)))
+
+    const { rows, invalid } = buildCampaignRows(table, { ...mapping, metadata }, defaultCountry, formMetadata)
+    setInvalidRows(invalid)
+    if (rows.length === 0) {
+      alert('No valid phone numbers to call')
+      return
+    }
+
+    const fromPhone = phoneNumbers.find(p => p.id === phoneNumberId)
+    const assistant = assistants.find(a => a.id === assistantId)
+    const confirmed = confirm(
+      `Call ${rows.length} contact${rows.length !== 1 ? 's' : ''} from ${fromPhone?.number ? formatPhoneNumber(fromPhone.number) : phoneNumberId} ` +
+      `with assistant "${assistant?.name || assistantId}"?` +
+      (invalid.length > 0 ? `\n\n${invalid.length} row${invalid.length !== 1 ? 's' : ''} will be skipped.` : '')
+    )
+    if (!confirmed) return
+
+    console.log('📋 Starting Call Campaign:', {
+      api: 'POST /call (per contact)',
+      description: 'Dial every imported contact through makeCall',
+      contacts: rows.length,
+      skipped: invalid.length,
+      concurrency: limit,
+      pacingMs: pacing * 1000
+    })
+
+    const next = new CallCampaign(rows, {
+      assistantId,
+      phoneNumberId,
+      concurrency: limit,
+      pacingMs: pacing * 1000
+    })
+    setCampaign(next)
+    next.start()
+  }
+
+  const resetCampaign = () => {
+    setCampaign(null)
+    setInvalidRows([])
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Call Campaign</CardTitle>
+        <CardDescription>
+          Import a CSV of contacts and dial them with the assistant and phone number selected above
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {campaign ? (
+          <CampaignProgress campaign={campaign} onReset={resetCampaign} />
+        ) : (
+          <>
+            <div>
+              <Label htmlFor="campaign-csv">Contacts CSV</Label>
+              <Input
+                id="campaign-csv"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) importFile(file)
+                }}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                First row must contain column headers. Numbers without a + country code use the default country selected in &quot;Make a Call&quot;.
+              </p>
+              {csvError && <p className="text-xs text-red-600 mt-1">{fileName}: {csvError}</p>}
+            </div>
+
+            {table && (
+              <>
+                <div className="text-sm text-gray-600">
+                  {fileName}: {table.rows.length} row{table.rows.length !== 1 ? 's' : ''}, columns {table.headers.join(', ')}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Phone Number Column</Label>
+                    <ColumnSelect
+                      headers={table.headers}
+                      value={mapping.number}
+                      onChange={(value) => setMapping(prev => ({ ...prev, number: value }))}
+                    />
+                  </div>
+                  <div>
+                    <Label>Name Column</Label>
+                    <ColumnSelect
+                      headers={table.headers}
+                      value={mapping.name || NONE}
+                      onChange={(value) => setMapping(prev => ({ ...prev, name: value === NONE ? undefined : value }))}
+                      noneLabel="No name"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Metadata</Label>
+                  {metadataKeys.length === 0 ? (
+                    <p className="text-xs text-gray-500">
+                      Add custom metadata fields in the &quot;Make a Call&quot; form to map CSV columns onto them.
+                    </p>
+                  ) : (
+                    metadataKeys.map(key => {
+                      const formValue = metadataFields.find(field => field.key.trim() === key)?.value
+                      return (
+                        <div key={key} className="grid grid-cols-2 gap-4 items-center">
+                          <code className="text-sm">{key}</code>
+                          <ColumnSelect
+                            headers={table.headers}
+                            value={mapping.metadata[key] || NONE}
+                            onChange={(value) => mapMetadata(key, value)}
+                            noneLabel={formValue ? `Form value: ${formValue}` : 'Not set'}
+                          />
+                        </div>
+                      )
+                    })
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="campaign-concurrency">Concurrent Calls</Label>
+                    <Input
+                      id="campaign-concurrency"
+                      type="number"
+                      min={1}
+                      max={MAX_CONCURRENCY}
+                      value={concurrency}
+                      onChange={(e) => setConcurrency(e.target.value)}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="campaign-pacing">Seconds Between Calls</Label>
+                    <Input
+                      id="campaign-pacing"
+                      type="number"
+                      min={0}
+                      step="0.5"
+                      value={pacingSeconds}
+                      onChange={(e) => setPacingSeconds(e.target.value)}
+                    />
+                  </div>
+                </div>
+
+                <Button onClick={startCampaign} disabled={!mapping.number || table.rows.length === 0} className="w-full">
+                  Start Campaign
+                </Button>
+              </>
+            )}
+          </>
+        )}
+
+        {invalidRows.length > 0 && (
+          <div className="text-xs bg-yellow-50 border border-yellow-200 rounded p-2 max-h-32 overflow-y-auto">
+            <div className="font-medium mb-1">Skipped {invalidRows.length} row{invalidRows.length !== 1 ? 's' : ''}:</div>
+            {invalidRows.map(row => (
+              <div key={row.index}>Row {row.index + 1}: {row.error}</div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function CampaignProgress({ campaign, onReset }: { campaign: CallCampaign, onReset: () => void }) {
+  const { state, rows, counts } = useSyncExternalStore(campaign.subscribe, campaign.getSnapshot, campaign.getSnapshot)
+  const done = counts.ended + counts.failed + counts.cancelled
+  const finished = state === 'completed' || (state === 'cancelled' && counts.dialing === 0)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex flex-wrap gap-2 items-center">
+          <Badge>{state}</Badge>
+          {(Object.keys(counts) as CampaignRowStatus[]).map(status => counts[status] > 0 && (
+            <Badge key={status} variant={STATUS_VARIANTS[status]}>{counts[status]} {status}</Badge>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          {state === 'running' && (
+            <Button size="sm" variant="outline" onClick={() => campaign.pause()}>Pause</Button>
+          )}
+          {state === 'paused' && (
+            <Button size="sm" onClick={() => campaign.resume()}>Resume</Button>
+          )}
+          {(state === 'running' || state === 'paused') && (
+            <Button
+              size="sm"
+              variant="destructive"
+              onClick={() => {
+                if (confirm('Cancel the campaign? Queued contacts won\'t be called; calls in progress are not hung up.')) campaign.cancel()
+              }}
+            >
+              Cancel
+            </Button>
+          )}
+          {finished && (
+            <Button size="sm" variant="outline" onClick={onReset}>New Campaign</Button>
+          )}
+        </div>
+      </div>
+
+      <div className="w-full bg-gray-200 rounded h-2">
+        <div className="bg-blue-600 h-2 rounded" style={{ width: `${rows.length ? (done / rows.length) * 100 : 0}%` }} />
+      </div>
+      <div className="text-xs text-gray-500">{done} of {rows.length} contacts done</div>
+      {state === 'paused' && counts.dialing > 0 && (
+        <div className="text-xs text-gray-500">Paused: {counts.dialing} call{counts.dialing !== 1 ? 's' : ''} in progress will finish normally</div>
+      )}
+
+      <div className="max-h-96 overflow-y-auto border rounded">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr className="text-left">
+              <th className="p-2">Row</th>
+              <th className="p-2">Contact</th>
+              <th className="p-2">Status</th>
+              <th className="p-2">Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(row => (
+              <tr key={row.index} className="border-t">
+                <td className="p-2 text-gray-500">{row.index + 1}</td>
+                <td className="p-2">
+                  <div className="font-mono">{formatPhoneNumber(row.number)}</div>
+                  {row.name && <div className="text-xs text-gray-600">{row.name}</div>}
+                </td>
+                <td className="p-2">
+                  <Badge variant={STATUS_VARIANTS[row.status]}>{row.status}</Badge>
+                  {row.status === 'dialing' && row.callStatus && (
+                    <span className="text-xs text-gray-500 ml-1">{row.callStatus}</span>
+                  )}
+                </td>
+                <td className="p-2 text-xs">
+                  {row.callId && <div className="font-mono text-gray-600">{row.callId}</div>}
+                  {row.endedReason && <div>{row.endedReason}</div>}
+                  {row.error && <div className="text-red-600">{row.error}</div>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function ColumnSelect({ headers, value, onChange, noneLabel }: { headers: string[], value: string, onChange: (value: string) => void, noneLabel?: string }) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="w-full">
+        <SelectValue placeholder="Select a column" />
+      </SelectTrigger>
+      <SelectContent>
+        {noneLabel && <SelectItem value={NONE}>{noneLabel}</SelectItem>}
+        {headers.map(header => (
+          <SelectItem key={header} value={header}>{header}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Textarea } from '@/components/ui/textarea'
+import { sendCallControl } from '@/lib/vapi-control'
+import { isAbortError } from '@/lib/vapi-errors'
+import { parsePhoneNumber } from '@/lib/phone-number'
+import { useDefaultCountry } from '@/hooks/use-default-country'
+import { useUnmountSignal } from '@/hooks/use-unmount-signal'
+import type { CallControlCommand, TransferDestination } from '@/lib/vapi-types'
+
+interface CallControlPanelProps {
+  controlUrl: string
+  /** Records each command and its outcome (the monitor shows these in the WebSocket log). */
+  onLog: (type: string, data: any) => void
+}
+
+export function CallControlPanel({ controlUrl, onLog }: CallControlPanelProps) {
+  const [sending, setSending] = useState<CallControlCommand['type'] | null>(null)
+  const [sayText, setSayText] = useState('')
+  const [endAfterSay, setEndAfterSay] = useState(false)
+  const [messageRole, setMessageRole] = useState<'system' | 'user'>('system')
+  const [messageText, setMessageText] = useState('')
+  const [triggerResponse, setTriggerResponse] = useState(true)
+  const [transferTarget, setTransferTarget] = useState('')
+  const [transferMessage, setTransferMessage] = useState('')
+  const [defaultCountry] = useDefaultCountry()
+  const getSignal = useUnmountSignal()
+
+  const send = async (command: CallControlCommand) => {
+    setSending(command.type)
+    onLog('command', { command, controlUrl })
+    try {
+      const result = await sendCallControl(controlUrl, command, { signal: getSignal() })
+      onLog('response', { command: command.type, status: result.status, body: result.body })
+      return true
+    } catch (error) {
+      if (isAbortError(error)) return false
+      console.error(`Control command ${command.type} failed:`, error)
+      onLog('error', { command: command.type, error: error instanceof Error ? error.message : String(error) })
+      return false
+    } finally {
+      setSending(null)
+    }
+  }
+
+  const say = async () => {
+    if (!sayText.trim()) return
+    if (await send({ type: 'say', content: sayText.trim(), endCallAfterSpoken: endAfterSay })) setSayText('')
+  }
+
+  const addMessage = async () => {
+    if (!messageText.trim()) return
+    const sent = await send({
+      type: 'add-message',
+      message: { role: messageRole, content: messageText.trim() },
+      triggerResponseEnabled: triggerResponse
+    })
+    if (sent) setMessageText('')
+  }
+
+  const transfer = async () => {
+    const target = transferTarget.trim()
+    let destination: TransferDestination
+    if (/^sips?:/i.test(target)) {
+      destination = { type: 'sip', sipUri: target }
+    } else {
+      const parsed = parsePhoneNumber(target, defaultCountry)
+      if (!parsed.ok) {
+        alert(`Invalid transfer number: ${parsed.error}`)
+        return
+      }
+      destination = { type: 'number', number: parsed.phoneNumber.e164 }
+    }
+
+    const label = destination.type === 'number' ? destination.number : destination.sipUri
+    if (!confirm(`Transfer the call to ${label}?`)) return
+    await send({ type: 'transfer', destination, content: transferMessage.trim() || undefined })
+  }
+
+  const endCall = async () => {
+    if (!confirm('End the call now?')) return
+    await send({ type: 'end-call' })
+  }
+
+  const busy = sending !== null
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label htmlFor="control-say">Say</Label>
+        <div className="flex gap-2">
+          <Input
+            id="control-say"
+            value={sayText}
+            onChange={(e) => setSayText(e.target.value)}
+            placeholder="Text for the assistant to speak right now"
+          />
+          <Button size="sm" onClick={say} disabled={busy || !sayText.trim()}>
+            {sending === 'say' ? 'Sending...' : 'Say'}
+          </Button>
+        </div>
+        <label className="flex items-center space-x-2 text-xs mt-1">
+          <input type="checkbox" checked={endAfterSay} onChange={(e) => setEndAfterSay(e.target.checked)} />
+          <span>End the call after speaking</span>
+        </label>
+      </div>
+
+      <div>
+        <Label htmlFor="control-message">Inject Message</Label>
+        <div className="flex gap-2 mb-2">
+          <Select value={messageRole} onValueChange={(value) => setMessageRole(value as 'system' | 'user')}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="system">system</SelectItem>
+              <SelectItem value="user">user</SelectItem>
+            </SelectContent>
+          </Select>
+          <label className="flex items-center space-x-2 text-xs">
+            <input type="checkbox" checked={triggerResponse} onChange={(e) => setTriggerResponse(e.target.checked)} />
+            <span>Assistant responds immediately</span>
+          </label>
+        </div>
+        <Textarea
+          id="control-message"
+          value={messageText}
+          onChange={(e) => setMessageText(e.target.value)}
+          placeholder={messageRole === 'system' ? 'e.g. The customer is a VIP; offer free shipping.' : 'Message as if the customer said it'}
+          className="min-h-[60px] text-sm"
+        />
+        <Button size="sm" className="mt-2" onClick={addMessage} disabled={busy || !messageText.trim()}>
+          {sending === 'add-message' ? 'Sending...' : 'Add Message'}
+        </Button>
+      </div>
+
+      <div>
+        <Label>Assistant Audio</Label>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => send({ type: 'control', control: 'mute-assistant' })} disabled={busy}>
+            Mute Assistant
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => send({ type: 'control', control: 'unmute-assistant' })} disabled={busy}>
+            Unmute Assistant
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <Label htmlFor="control-transfer">Transfer</Label>
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            id="control-transfer"
+            value={transferTarget}
+            onChange={(e) => setTransferTarget(e.target.value)}
+            placeholder="+14155552671 or sip:agent@example.com"
+          />
+          <Input
+            value={transferMessage}
+            onChange={(e) => setTransferMessage(e.target.value)}
+            placeholder="Message before transferring (optional)"
+          />
+        </div>
+        <Button size="sm" variant="outline" className="mt-2" onClick={transfer} disabled={busy || !transferTarget.trim()}>
+          {sending === 'transfer' ? 'Transferring...' : 'Transfer Call'}
+        </Button>
+      </div>
+
+      <Button variant="destructive" size="sm" onClick={endCall} disabled={busy}>
+        {sending === 'end-call' ? 'Ending...' : 'End Call'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,349 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Badge } from '@/components/ui/badge'
+import { MAX_STATUS_FILTER_REQUESTS, vapiService } from '@/lib/vapi-service'
+import { isAbortError } from '@/lib/vapi-errors'
+import { formatPhoneNumber } from '@/lib/phone-number'
+import { useUnmountSignal } from '@/hooks/use-unmount-signal'
+import type { Assistant, Call, ListCallsFilters, PhoneNumber } from '@/lib/vapi-types'
+
+// Radix Select doesn't allow an empty item value, so "any" stands for "no filter"
+const ANY = 'any'
+const CALL_STATUSES = ['scheduled', 'queued', 'ringing', 'in-progress', 'forwarding', 'ended']
+const PAGE_SIZES = [10, 25, 50, 100]
+
+/** The filters and page size a search was run with; "Load More" continues the same search. */
+interface CallQuery {
+  filters: ListCallsFilters
+  limit: number
+}
+
+const INITIAL_QUERY: CallQuery = { filters: {}, limit: 25 }
+
+interface CallHistoryProps {
+  assistants: Assistant[]
+  phoneNumbers: PhoneNumber[]
+  /** Open a live call in the monitor workspace (e.g. one placed by a teammate). */
+  onMonitor?: (call: Call) => void
+}
+
+export function CallHistory({ assistants, phoneNumbers, onMonitor }: CallHistoryProps) {
+  const [calls, setCalls] = useState<Call[]>([])
+  const [nextCursor, setNextCursor] = useState<string | undefined>()
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedCall, setSelectedCall] = useState<Call | null>(null)
+  const [loadingDetail, setLoadingDetail] = useState(false)
+  const [pageSize, setPageSize] = useState(INITIAL_QUERY.limit)
+  const [query, setQuery] = useState<CallQuery>(INITIAL_QUERY)
+  const getSignal = useUnmountSignal()
+
+  // Filter state (datetime-local values, converted to ISO when querying)
+  const [filters, setFilters] = useState({
+    assistantId: ANY,
+    phoneNumberId: ANY,
+    status: ANY,
+    createdAfter: '',
+    createdBefore: ''
+  })
+
+  const buildFilters = (): ListCallsFilters => ({
+    assistantId: filters.assistantId !== ANY ? filters.assistantId : undefined,
+    phoneNumberId: filters.phoneNumberId !== ANY ? filters.phoneNumberId : undefined,
+    status: filters.status !== ANY ? [filters.status] : undefined,
+    createdAfter: filters.createdAfter ? new Date(filters.createdAfter).toISOString() : undefined,
+    createdBefore: filters.createdBefore ? new Date(filters.createdBefore).toISOString() : undefined
+  })
+
+  const fetchCalls = useCallback(async (query: CallQuery, cursor?: string) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const page = await vapiService.listCalls(query.filters, { limit: query.limit, cursor, signal: getSignal() })
+      setQuery(query)
+      setCalls(prev => cursor ? [...prev, ...page.calls] : page.calls)
+      setNextCursor(page.nextCursor)
+    } catch (err) {
+      if (isAbortError(err)) return
+      console.error('Failed to load call history:', err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoading(false)
+    }
+  }, [getSignal])
+
+  useEffect(() => {
+    fetchCalls(INITIAL_QUERY)
+  }, [fetchCalls])
+
+  const openCall = async (callId: string) => {
+    setLoadingDetail(true)
+    try {
+      // The list endpoint may omit large fields, so always fetch the full call
+      setSelectedCall(await vapiService.getCall(callId, { signal: getSignal() }))
+    } catch (err) {
+      if (isAbortError(err)) return
+      console.error('Failed to load call details:', err)
+      alert(`Failed to load call ${callId}: ${err}`)
+    } finally {
+      setLoadingDetail(false)
+    }
+  }
+
+  const resetFilters = () => {
+    setFilters({ assistantId: ANY, phoneNumberId: ANY, status: ANY, createdAfter: '', createdBefore: '' })
+  }
+
+  const assistantName = (id?: string) => assistants.find(a => a.id === id)?.name || id || '—'
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Call History</CardTitle>
+        <CardDescription>
+          Past calls from GET /call, newest first
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label>Assistant</Label>
+            <Select value={filters.assistantId} onValueChange={(value) => setFilters(prev => ({ ...prev, assistantId: value }))}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Any assistant" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any assistant</SelectItem>
+                {assistants.map((assistant) => (
+                  <SelectItem key={assistant.id} value={assistant.id}>
+                    {assistant.name || assistant.id}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Phone Number</Label>
+            <Select value={filters.phoneNumberId} onValueChange={(value) => setFilters(prev => ({ ...prev, phoneNumberId: value }))}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Any phone number" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any phone number</SelectItem>
+                {phoneNumbers.map((phone) => (
+                  <SelectItem key={phone.id} value={phone.id}>
+                    {phone.name || phone.id} {phone.number ? `(${formatPhoneNumber(phone.number)})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Status</Label>
+            <Select value={filters.status} onValueChange={(value) => setFilters(prev => ({ ...prev, status: value }))}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Any status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any status</SelectItem>
+                {CALL_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>{status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="history-from">Created after</Label>
+            <Input
+              id="history-from"
+              type="datetime-local"
+              value={filters.createdAfter}
+              onChange={(e) => setFilters(prev => ({ ...prev, createdAfter: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="history-to">Created before</Label>
+            <Input
+              id="history-to"
+              type="datetime-local"
+              value={filters.createdBefore}
+              onChange={(e) => setFilters(prev => ({ ...prev, createdBefore: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label>Page size</Label>
+            <Select value={String(pageSize)} onValueChange={(value) => setPageSize(Number(value))}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAGE_SIZES.map((size) => (
+                  <SelectItem key={size} value={String(size)}>{size} per page</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button onClick={() => fetchCalls({ filters: buildFilters(), limit: pageSize })} disabled={loading}>
+            {loading ? 'Loading...' : 'Apply Filters'}
+          </Button>
+          <Button variant="outline" onClick={resetFilters} disabled={loading}>
+            Reset
+          </Button>
+        </div>
+
+        {query.filters.status && (
+          <p className="text-xs text-gray-500">
+            VAPI can't filter by status, so each page searches at most {MAX_STATUS_FILTER_REQUESTS} pages of calls
+            and may come back short when matches are rare.
+          </p>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        {calls.length === 0 && !loading ? (
+          <p className="text-muted-foreground">No calls found</p>
+        ) : (
+          <div className="space-y-2 max-h-[400px] overflow-y-auto">
+            {calls.map((call) => (
+              <div
+                key={call.id}
+                className={`p-2 border rounded text-sm cursor-pointer transition-colors ${
+                  selectedCall?.id === call.id ? 'ring-2 ring-blue-500 bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+                onClick={() => openCall(call.id)}
+              >
+                <div className="flex justify-between items-center">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={call.status === 'ended' ? 'outline' : 'default'}>{call.status}</Badge>
+                    <span className="font-medium">
+                      {call.customer?.name || 'Unknown'}
+                      {call.customer?.number && ` · ${formatPhoneNumber(call.customer.number)}`}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {call.createdAt ? new Date(call.createdAt).toLocaleString() : '—'}
+                  </span>
+                </div>
+                <div className="mt-1 grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-gray-600">
+                  <span>Duration: {formatDuration(call)}</span>
+                  <span>Cost: {call.cost !== undefined ? `$${call.cost.toFixed(4)}` : '—'}</span>
+                  <span className="truncate">Ended: {call.endedReason || '—'}</span>
+                  <span className="truncate">Assistant: {assistantName(call.assistantId)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {nextCursor && (
+          <Button variant="outline" className="w-full" onClick={() => fetchCalls(query, nextCursor)} disabled={loading}>
+            {loading ? 'Loading...' : 'Load More'}
+          </Button>
+        )}
+
+        {(selectedCall || loadingDetail) && (
+          <div className="border-t pt-4 space-y-3">
+            <div className="flex justify-between items-center">
+              <h4 className="font-semibold">Call Details</h4>
+              <Button variant="ghost" size="sm" onClick={() => setSelectedCall(null)}>Close</Button>
+            </div>
+            {loadingDetail || !selectedCall ? (
+              <p className="text-sm text-muted-foreground">Loading call...</p>
+            ) : (
+              <CallDetail call={selectedCall} assistantName={assistantName(selectedCall.assistantId)} onMonitor={onMonitor} />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function CallDetail({ call, assistantName, onMonitor }: { call: Call, assistantName: string, onMonitor?: (call: Call) => void }) {
+  return (
+    <div className="space-y-3 text-sm">
+      {onMonitor && call.status !== 'ended' && call.monitor?.listenUrl && (
+        <Button size="sm" onClick={() => onMonitor(call)}>Monitor Live Call</Button>
+      )}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <span className="font-medium text-gray-600">Call ID:</span>
+          <p className="font-mono text-xs break-all">{call.id}</p>
+        </div>
+        <div>
+          <span className="font-medium text-gray-600">Assistant:</span>
+          <p>{assistantName}</p>
+        </div>
+        <div>
+          <span className="font-medium text-gray-600">Started:</span>
+          <p>{call.startedAt ? new Date(call.startedAt).toLocaleString() : '—'}</p>
+        </div>
+        <div>
+          <span className="font-medium text-gray-600">Ended:</span>
+          <p>{call.endedAt ? new Date(call.endedAt).toLocaleString() : '—'}</p>
+        </div>
+        <div>
+          <span className="font-medium text-gray-600">Duration:</span>
+          <p>{formatDuration(call)}</p>
+        </div>
+        <div>
+          <span className="font-medium text-gray-600">Cost:</span>
+          <p>{call.cost !== undefined ? `$${call.cost.toFixed(4)}` : '—'}</p>
+        </div>
+      </div>
+
+      {call.endedReason && (
+        <div>
+          <span className="font-medium text-gray-600">End Reason:</span>
+          <p>{call.endedReason}</p>
+        </div>
+      )}
+
+      {call.summary && (
+        <div>
+          <span className="font-medium text-gray-600">Summary:</span>
+          <p className="whitespace-pre-wrap">{call.summary}</p>
+        </div>
+      )}
+
+      {call.recordingUrl && (
+        <div>
+          <span className="font-medium text-gray-600">Recording:</span>
+          <audio controls src={call.recordingUrl} className="w-full mt-1" />
+        </div>
+      )}
+
+      {call.transcript && (
+        <details>
+          <summary className="text-xs cursor-pointer text-blue-600">Show Transcript</summary>
+          <pre className="text-xs bg-gray-50 p-2 rounded mt-1 whitespace-pre-wrap">{call.transcript}</pre>
+        </details>
+      )}
+
+      <details>
+        <summary className="text-xs cursor-pointer text-blue-600">Show Raw Call</summary>
+        <pre className="text-xs bg-gray-50 p-2 rounded mt-1 overflow-x-auto max-h-80">{JSON.stringify(call, null, 2)}</pre>
+      </details>
+    </div>
+  )
+}
+
+function formatDuration(call: Call) {
+  if (!call.startedAt || !call.endedAt) return '—'
+  const seconds = Math.max(0, Math.round((Date.parse(call.endedAt) - Date.parse(call.startedAt)) / 1000))
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
@@ -0,0 +1,552 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { vapiService } from "@/lib/vapi-service";
+import { isAbortError } from "@/lib/vapi-errors";
+import { useUnmountSignal } from "@/hooks/use-unmount-signal";
+import { useLatest } from "@/hooks/use-latest";
+import { useWebSocketConnection } from "@/hooks/use-websocket-connection";
+import type { Call } from "@/lib/vapi-types";
+import { formatPhoneNumber } from "@/lib/phone-number";
+import { PcmAudioPlayer } from "@/lib/pcm-audio-player";
+import { WavRecorder, releaseRecording, type CallRecording } from "@/lib/wav-recorder";
+import type { WsConnectionState } from "@/lib/ws-connection-manager";
+import { createListenSocket, relayListenUrl } from "@/lib/listen-relay-client";
+import type { MonitorMessage } from "@/lib/call-timeline";
+import { CallControlPanel } from "./call-control-panel";
+import { ListenAudioPlayer } from "./listen-audio-player";
+import { CallTimeline } from "./call-timeline";
+
+export const LISTEN_STATE_BADGES: Record<WsConnectionState, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  closed: { label: 'Disconnected', variant: 'secondary' },
+  connecting: { label: 'Connecting', variant: 'outline' },
+  open: { label: 'Connected', variant: 'default' },
+  reconnecting: { label: 'Reconnecting', variant: 'outline' },
+  failed: { label: 'Failed', variant: 'destructive' },
+};
+
+export const ENDED_CALL_STATUSES = ['ended', 'completed', 'failed'];
+
+// Non-audio messages kept for the call timeline; audio frames would push them out of the log
+const MAX_TIMELINE_MESSAGES = 500;
+// The listen socket carries audio, not status updates; while listening the call is checked this often
+const STATUS_CHECK_INTERVAL_MS = 15000;
+
+/** What the workspace needs to know about a monitored call for its tabs and summary strip. */
+export interface CallMonitorSummary {
+  call: Call;
+  listenState: WsConnectionState;
+}
+
+interface CallMonitorPanelProps {
+  /** The call as returned when it was placed; the panel keeps its own updated copy. */
+  call: Call;
+  /** Called whenever the call or its listen connection changes. Should be a stable callback. */
+  onSummaryChange: (summary: CallMonitorSummary) => void;
+}
+
+const normalizeWsData = async (data: any): Promise<{ parsed: any; isJson: boolean; raw: string; isBinary?: boolean; bytes?: ArrayBuffer; size?: number }> => {
+  try {
+    // If already a string, try to parse JSON
+    if (typeof data === 'string') {
+      try {
+        return { parsed: JSON.parse(data), isJson: true, raw: data };
+      } catch {
+        return { parsed: data, isJson: false, raw: data };
+      }
+    }
+
+    // If it's a Blob (binary text), read as text or arrayBuffer
+    if (typeof Blob !== 'undefined' && data instanceof Blob) {
+      // Try to detect if it's text-like by reading a small slice
+      const slice = data.slice(0, 256);
+      const text = await slice.text();
+      try {
+        return { parsed: JSON.parse(text), isJson: true, raw: text };
+      } catch {
+        // treat as binary audio/data
+        const fullArrayBuffer = await data.arrayBuffer();
+        return { parsed: { binary: true }, isJson: false, raw: '', isBinary: true, bytes: fullArrayBuffer, size: fullArrayBuffer.byteLength };
+      }
+    }
+
+    // If it's an ArrayBuffer, decode it or treat as binary
+    if (data instanceof ArrayBuffer) {
+      // Heuristic: check printable ratio to decide whether it's text
+      const bytes = new Uint8Array(data);
+      let printable = 0;
+      for (let i = 0; i < Math.min(512, bytes.length); i++) {
+        const b = bytes[i];
+        if (b === 9 || b === 10 || b === 13 || (b >= 32 && b <= 126)) printable++;
+      }
+      const ratio = printable / Math.min(512, bytes.length || 1);
+
+      if (ratio > 0.6) {
+        // Treat as text
+        const text = new TextDecoder().decode(bytes);
+        try {
+          return { parsed: JSON.parse(text), isJson: true, raw: text };
+        } catch {
+          return { parsed: text, isJson: false, raw: text };
+        }
+      }
+
+      // Otherwise treat as binary audio/data
+      return { parsed: { binary: true }, isJson: false, raw: '', isBinary: true, bytes: data, size: bytes.byteLength };
+    }
+
+    // MessageEvent sometimes wraps parsed objects already
+    if (typeof data === 'object') {
+      return { parsed: data, isJson: true, raw: JSON.stringify(data) };
+    }
+
+    // Fallback to string coercion
+    const fallback = String(data);
+    return { parsed: fallback, isJson: false, raw: fallback };
+  } catch {
+    return { parsed: `<unreadable binary>`, isJson: false, raw: '' };
+  }
+};
+
+/**
+ * Monitors one call: its status, listen WebSocket (audio, recording, message log), call control and
+ * polling. Every monitored call gets its own panel, so several calls can be followed at once.
+ */
+export function CallMonitorPanel({ call: initialCall, onSummaryChange }: CallMonitorPanelProps) {
+  const [currentCall, setCurrentCall] = useState<Call>(initialCall);
+  const [wsMessages, setWsMessages] = useState<MonitorMessage[]>([]);
+  const [timelineMessages, setTimelineMessages] = useState<MonitorMessage[]>([]);
+  const pollRef = useRef<number | null>(null);
+  // Plays binary listen frames; started from the player's button (browsers need a user gesture)
+  const [audioPlayer] = useState(() => new PcmAudioPlayer());
+  // Listen audio of this call, turned into WAV downloads once the call ends
+  const recorderRef = useRef<WavRecorder | null>(null);
+  const [recording, setRecording] = useState<CallRecording | null>(null);
+  const recordingRef = useRef(recording);
+  // Listen through the server relay instead of opening VAPI's WebSocket from the browser; the ref
+  // lets the polling callback see the current choice
+  const [useRelay, setUseRelay] = useState(false);
+  const relayRef = useRef(useRelay);
+  // Aborted on unmount so polling doesn't outlive the panel
+  const getSignal = useUnmountSignal();
+  // Listen WebSocket; reconnects, liveness checks and metrics are handled by the connection manager
+  const listen = useWebSocketConnection({
+    createSocket: createListenSocket,
+    onMessage: (data) => handleListenMessage(data),
+    onStateChange: (state) => {
+      // VAPI closes the listen socket when the call ends
+      if (state === 'closed') finishRecording();
+    },
+    onLog: (level, message) => addWsMessage(level, message, 'listen'),
+  });
+
+  useEffect(() => {
+    onSummaryChange({ call: currentCall, listenState: listen.state });
+  }, [currentCall, listen.state, onSummaryChange]);
+
+  const callEnded = ENDED_CALL_STATUSES.includes(currentCall.status);
+  // Intervals outlive renders, so they call the latest refreshCall through this ref
+  const refreshCallRef = useRef(() => Promise.resolve());
+  useEffect(() => {
+    refreshCallRef.current = refreshCall;
+  });
+
+  // Without polling, nothing else would notice the call ending: check it while listening, and straight
+  // away when the listen socket closes (VAPI closes it when the call ends)
+  useEffect(() => {
+    if (callEnded || !listen.url) return;
+    if (listen.state === 'closed' || listen.state === 'failed') refreshCallRef.current();
+    const timer = window.setInterval(() => refreshCallRef.current(), STATUS_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [callEnded, listen.url, listen.state]);
+
+  // Start monitoring on mount: connect to the listen WebSocket if available (controlUrl is used by
+  // the call control panel), otherwise poll the call until monitor URLs appear or it ends. Calls
+  // opened after they ended only get their timeline
+  const startMonitoring = () => {
+    if (ENDED_CALL_STATUSES.includes(initialCall.status)) {
+      addWsMessage('info', `Call ${initialCall.id} has already ended (${initialCall.endedReason || initialCall.status})`, 'poll');
+    } else if (initialCall.monitor?.listenUrl) {
+      connectWebSockets(initialCall.monitor.listenUrl, initialCall.monitor.controlUrl);
+    } else {
+      startPollingCall();
+    }
+  };
+
+  const stopMonitoring = () => {
+    // Nothing is left to show the recording in: drop the one in progress and release the finished one
+    recorderRef.current = null;
+    disconnectWebSockets();
+    stopPollingCall();
+    if (recordingRef.current) releaseRecording(recordingRef.current);
+  };
+
+  const monitoringRef = useLatest({ start: startMonitoring, stop: stopMonitoring });
+  useEffect(() => {
+    const { start, stop } = monitoringRef.current;
+    start();
+    return stop;
+  }, [monitoringRef]);
+
+  const startPollingCall = () => {
+    const callId = initialCall.id;
+    stopPollingCall();
+    addWsMessage('poll', `Starting polling for call ${callId}`, 'poll');
+    // Poll every 3s
+    pollRef.current = window.setInterval(async () => {
+      try {
+        const updated = await vapiService.getCall(callId, { signal: getSignal() });
+        addWsMessage('poll', { callId, updated }, 'poll');
+
+        // Update current call state
+        setCurrentCall(updated);
+
+        // If monitor URLs appear, connect and stop polling
+        if (updated?.monitor?.listenUrl || updated?.monitor?.controlUrl) {
+          addWsMessage('connection', `Discovered monitor URLs via polling`, 'poll');
+          connectWebSockets(updated.monitor.listenUrl, updated.monitor.controlUrl);
+          stopPollingCall();
+        }
+
+        // Stop polling if call ended
+        if (updated?.status && ENDED_CALL_STATUSES.includes(updated.status)) {
+          addWsMessage('poll', `Call ${callId} ended with status ${updated.status}, stopping poll`, 'poll');
+          stopPollingCall();
+          finishRecording();
+        }
+      } catch (err) {
+        if (isAbortError(err)) return;
+        addWsMessage('error', `Polling error for call ${callId}: ${err}`, 'poll');
+      }
+    }, 3000);
+  };
+
+  const refreshCall = async () => {
+    const callId = initialCall.id;
+    try {
+      const updated = await vapiService.getCall(callId, { signal: getSignal() });
+      if (updated.status !== currentCall.status) addWsMessage('poll', { callId, updated }, 'poll');
+      setCurrentCall(updated);
+      if (ENDED_CALL_STATUSES.includes(updated.status)) finishRecording();
+    } catch (err) {
+      if (isAbortError(err)) return;
+      addWsMessage('error', `Status check failed for call ${callId}: ${err}`, 'poll');
+    }
+  };
+
+  const stopPollingCall = () => {
+    if (pollRef.current) {
+      clearInterval(pollRef.current);
+      pollRef.current = null;
+      addWsMessage('poll', 'Stopped polling for call updates', 'poll');
+    }
+  };
+
+  const connectWebSockets = (listenUrl?: string, controlUrl?: string) => {
+    // Close existing listen connection, then open new one if provided.
+    disconnectWebSockets();
+    if (listenUrl) {
+      // Reconnects after a dropped connection reuse this recorder, so one call gives one recording
+      recorderRef.current = new WavRecorder(initialCall.id);
+      listen.connect(listenTarget(listenUrl));
+    }
+
+    // Control commands are sent over HTTP through /api/vapi-control, not opened as a WebSocket.
+    if (controlUrl) addWsMessage('info', `Control URL available for call control: ${controlUrl}`, 'control');
+  };
+
+  const listenTarget = (listenUrl: string) => relayRef.current ? relayListenUrl(listenUrl) : listenUrl;
+
+  const toggleRelay = (enabled: boolean) => {
+    relayRef.current = enabled;
+    setUseRelay(enabled);
+    // Switch transport straight away; the recording carries on across the reconnect
+    const listenUrl = currentCall.monitor?.listenUrl;
+    if (listenUrl && listen.state !== 'closed') listen.connect(listenTarget(listenUrl));
+  };
+
+  const disconnectWebSockets = () => {
+    finishRecording();
+    listen.disconnect();
+  };
+
+  const handleListenMessage = (data: unknown) => {
+    // Normalize all incoming payload types (string, Blob, ArrayBuffer, object)
+    (async () => {
+      const { parsed, isJson, raw, isBinary, bytes, size } = await normalizeWsData(data);
+
+      if (isJson && parsed) {
+        // If parsed JSON looks like a structured event, treat as a message
+        addWsMessage("message", parsed, 'listen');
+
+        // Update call status if it's a status update
+        if (parsed && parsed.type === "status-update") {
+          setCurrentCall(prev => ({ ...prev, ...parsed.call }));
+          if (parsed.call?.status === "ended") finishRecording();
+        }
+      } else if (isBinary) {
+        // Binary frames are call audio: play them (no-op unless listening) and add them to the recording
+        if (bytes) {
+          audioPlayer.push(bytes);
+          recorderRef.current?.append(bytes);
+        }
+        addWsMessage("raw", { binary: true, size }, 'listen');
+      } else {
+        // For non-JSON payloads preserve human-readable text in the 'raw' message type
+        addWsMessage("raw", parsed || raw || String(data), 'listen');
+      }
+    })().catch(err => {
+      addWsMessage('error', `Failed to parse incoming WS message: ${err}`, 'listen');
+    });
+  };
+
+  const saveRecording = (next: CallRecording | null) => {
+    if (recordingRef.current && recordingRef.current !== next) releaseRecording(recordingRef.current);
+    recordingRef.current = next;
+    setRecording(next);
+  };
+
+  const finishRecording = () => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    if (!recorder) return;
+
+    const format = audioPlayer.getFormat();
+    // A stereo player setting is taken as given; otherwise the layout is detected from the audio
+    const finished = recorder.finish(format.sampleRate, format.channels === 'stereo' ? 2 : undefined);
+    if (!finished) return;
+    addWsMessage('info', `Recorded ${finished.durationSeconds.toFixed(1)}s of ${finished.channels === 2 ? 'stereo' : 'mono'} audio for call ${finished.callId}`, 'listen');
+    saveRecording(finished);
+  };
+
+  const addWsMessage = (type: string, data: any, source: MonitorMessage['source'] = 'listen') => {
+    const message: MonitorMessage = {
+      type,
+      data,
+      timestamp: new Date().toISOString(),
+      source
+    };
+    setWsMessages(prev => [...prev, message].slice(-100)); // Keep last 100 messages
+    if (!data?.binary) setTimelineMessages(prev => [...prev, message].slice(-MAX_TIMELINE_MESSAGES));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Call Status */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Call Status</CardTitle>
+          <CardDescription>
+            Real-time call information and monitor URLs
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <span className="font-medium text-sm text-gray-600">Call ID:</span>
+                <p className="font-mono text-sm break-all">{currentCall.id}</p>
+              </div>
+              <div>
+                <span className="font-medium text-sm text-gray-600">Status:</span>
+                <div className="mt-1">
+                  <Badge variant={
+                    currentCall.status === 'queued' ? 'secondary' :
+                    currentCall.status === 'ringing' ? 'default' :
+                    currentCall.status === 'in-progress' ? 'default' :
+                    currentCall.status === 'ended' ? 'outline' :
+                    'secondary'
+                  }>{currentCall.status}</Badge>
+                </div>
+              </div>
+            </div>
+
+            {currentCall.customer && (
+              <div>
+                <span className="font-medium text-sm text-gray-600">Customer:</span>
+                <p className="text-sm">
+                  {currentCall.customer.name || 'Unknown'} - {currentCall.customer.number ? formatPhoneNumber(currentCall.customer.number) : 'unknown number'}
+                </p>
+              </div>
+            )}
+
+            {(currentCall.assistantId || currentCall.phoneNumberId) && (
+              <div className="grid grid-cols-2 gap-4">
+                {currentCall.assistantId && (
+                  <div>
+                    <span className="font-medium text-sm text-gray-600">Assistant ID:</span>
+                    <p className="font-mono text-xs break-all">{currentCall.assistantId}</p>
+                  </div>
+                )}
+                {currentCall.phoneNumberId && (
+                  <div>
+                    <span className="font-medium text-sm text-gray-600">Phone Number ID:</span>
+                    <p className="font-mono text-xs break-all">{currentCall.phoneNumberId}</p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {currentCall.monitor && (
+              <div className="border-t pt-3">
+                <span className="font-medium text-sm text-gray-600">Monitor URLs:</span>
+                <div className="mt-2 space-y-2">
+                  {currentCall.monitor.listenUrl && (
+                    <div>
+                      <Label className="text-xs text-gray-500">Listen WebSocket:</Label>
+                      <p className="font-mono text-xs break-all bg-gray-50 p-2 rounded">
+                        {currentCall.monitor.listenUrl}
+                      </p>
+                    </div>
+                  )}
+                  {currentCall.monitor.controlUrl && (
+                    <div>
+                      <Label className="text-xs text-gray-500">Control URL:</Label>
+                      <p className="font-mono text-xs break-all bg-gray-50 p-2 rounded">
+                        {currentCall.monitor.controlUrl}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {currentCall.monitor?.controlUrl && !callEnded && (
+              <div className="border-t pt-3">
+                <span className="font-medium text-sm text-gray-600">Call Control:</span>
+                <div className="mt-2">
+                  <CallControlPanel
+                    controlUrl={currentCall.monitor.controlUrl}
+                    onLog={(type, data) => addWsMessage(type, data, 'control')}
+                  />
+                </div>
+              </div>
+            )}
+
+            {recording && (
+              <div className="border-t pt-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm text-gray-600">Listen Recording:</span>
+                  <Button size="sm" variant="outline" onClick={() => saveRecording(null)}>
+                    Discard
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500 mt-1">
+                  {recording.durationSeconds.toFixed(1)}s · {recording.sampleRate / 1000} kHz · {recording.channels === 2 ? 'stereo' : 'mono'}
+                </p>
+                <div className="mt-2 flex flex-wrap gap-3">
+                  {recording.tracks.map(track => (
+                    <a key={track.fileName} className="text-sm text-blue-600" href={track.url} download={track.fileName}>
+                      Download {track.label} ({(track.size / 1024).toFixed(0)} KB)
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {(currentCall.cost !== undefined || currentCall.endedReason || currentCall.createdAt) && (
+              <div className="border-t pt-3 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                {currentCall.cost !== undefined && (
+                  <div>
+                    <span className="font-medium text-gray-600">Cost:</span>
+                    <p>${currentCall.cost.toFixed(4)}</p>
+                  </div>
+                )}
+                {currentCall.endedReason && (
+                  <div>
+                    <span className="font-medium text-gray-600">End Reason:</span>
+                    <p>{currentCall.endedReason}</p>
+                  </div>
+                )}
+                {currentCall.createdAt && (
+                  <div>
+                    <span className="font-medium text-gray-600">Created:</span>
+                    <p>{new Date(currentCall.createdAt).toLocaleString()}</p>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* WebSocket Messages */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            WebSocket Monitor
+            <div className="flex gap-2">
+              <Badge variant={LISTEN_STATE_BADGES[listen.state].variant}>
+                Listen: {LISTEN_STATE_BADGES[listen.state].label}
+                {listen.state === 'reconnecting' && ` (${listen.attempt}/${listen.maxAttempts})`}
+              </Badge>
+              {listen.state === 'failed' && listen.url && (
+                <Button size="sm" variant="outline" onClick={() => listen.connect(listen.url!)}>
+                  Reconnect
+                </Button>
+              )}
+            </div>
+          </CardTitle>
+          <CardDescription>
+            Real-time call events from the listen WebSocket, call polling and control commands
+          </CardDescription>
+          <label className="flex items-center space-x-2 text-xs">
+            <input type="checkbox" checked={useRelay} onChange={(e) => toggleRelay(e.target.checked)} />
+            <span>Listen through the server relay (when the browser can&apos;t reach VAPI&apos;s WebSocket)</span>
+          </label>
+          {listen.url && (
+            <p className="text-xs text-gray-500">
+              {listen.metrics.messagesReceived} messages · {(listen.metrics.bytesReceived / 1024).toFixed(0)} KB · {listen.metrics.reconnects} reconnects
+              {listen.state === 'open' && listen.metrics.lastMessageAt && ` · last message ${Math.round((Date.now() - listen.metrics.lastMessageAt) / 1000)}s ago`}
+              {listen.lastError && listen.state !== 'open' && ` · ${listen.lastError}`}
+            </p>
+          )}
+          {listen.state !== 'open' && wsMessages.some(msg => msg.type === 'error') && (
+            <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+              <h4 className="text-sm font-medium text-yellow-800 mb-2">🔧 WebSocket Connection Troubleshooting</h4>
+              <div className="text-xs text-yellow-700 space-y-1">
+                <p>• <strong>Monitor Plan Required:</strong> The assistant needs monitoring enabled to generate WebSocket URLs</p>
+                <p>• <strong>Quick Fix:</strong> Click "Enable Monitoring" button above to configure the assistant</p>
+                <p>• <strong>CORS/Security / Network:</strong> Browser may be blocked by network/firewall or TLS issues when connecting to remote WebSocket hosts; try listening through the server relay</p>
+                <p>• <strong>Normal Behavior:</strong> Calls will still work without WebSocket monitoring</p>
+              </div>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ListenAudioPlayer player={audioPlayer} connected={listen.state === 'open'} />
+          <div className="space-y-2 max-h-[400px] overflow-y-auto">
+            {wsMessages.length === 0 ? (
+              <p className="text-muted-foreground">No WebSocket messages yet</p>
+            ) : (
+              wsMessages.map((msg, index) => (
+                <div key={index} className="p-2 border rounded text-sm">
+                  <div className="flex justify-between items-center mb-1">
+                    <div className="flex gap-2">
+                      <Badge variant="outline" className="text-xs">{msg.type}</Badge>
+                      <Badge variant={msg.source === 'listen' ? 'default' : msg.source === 'control' ? 'outline' : 'secondary'} className="text-xs">{msg.source}</Badge>
+                    </div>
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(msg.timestamp).toLocaleTimeString()}
+                    </span>
+                  </div>
+                  {typeof msg.data === 'object' && msg.data?.binary ? (
+                    <div className="text-xs text-gray-700">Binary audio frame — {msg.data.size ?? 'unknown'} bytes</div>
+                  ) : (
+                    <pre className="text-xs overflow-x-auto">{typeof msg.data === 'string' ? msg.data : JSON.stringify(msg.data, null, 2)}</pre>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <CallTimeline call={currentCall} ended={callEnded} messages={timelineMessages} />
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { buildCallTimeline, type MonitorMessage, type TimelineHighlight, type TimelineSource } from '@/lib/call-timeline'
+import { webhookQueryParams, MAX_WEBHOOK_PAGE_SIZE } from '@/lib/vapi-webhook-query'
+import type { WebhookEvent } from '@/lib/vapi-webhook-storage'
+import type { Call } from '@/lib/vapi-types'
+
+const POLL_INTERVAL_MS = 5000
+// The end-of-call report arrives after the call has ended; keep looking for it this long
+const REPORT_WAIT_MS = 60000
+// Most pages of webhook events fetched per refresh
+const MAX_PAGES = 5
+
+const SOURCES: TimelineSource[] = ['webhook', 'listen', 'poll', 'control']
+
+const HIGHLIGHT_STYLES: Record<TimelineHighlight, { label: string; className: string }> = {
+  status: { label: 'Status', className: 'border-l-4 border-l-blue-500' },
+  transcript: { label: 'Transcript', className: 'border-l-4 border-l-green-500' },
+  'tool-calls': { label: 'Tool call', className: 'border-l-4 border-l-purple-500' },
+  'end-of-call-report': { label: 'Report', className: 'border-l-4 border-l-amber-500 bg-amber-50' },
+}
+
+interface CallTimelineProps {
+  call: Call
+  /** Whether the call has ended; webhooks are then only fetched until the end-of-call report is in. */
+  ended: boolean
+  /** The monitor panel's log: listen WebSocket messages, polls and control commands. */
+  messages: MonitorMessage[]
+}
+
+/** Webhook events, listen messages, polls and control commands of one call in time order. */
+export function CallTimeline({ call, ended, messages }: CallTimelineProps) {
+  const [webhooks, setWebhooks] = useState<WebhookEvent[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [shownSources, setShownSources] = useState<TimelineSource[]>(SOURCES)
+  const [highlightsOnly, setHighlightsOnly] = useState(false)
+  // Newest webhook seen, so later fetches only ask for what came after it
+  const newestRef = useRef<string | undefined>(undefined)
+
+  const fetchWebhooks = useCallback(async () => {
+    try {
+      const fetched: WebhookEvent[] = []
+      let cursor: string | undefined
+      // Step back a millisecond so events stored in the same millisecond as the newest one aren't missed
+      const since = newestRef.current ? new Date(Date.parse(newestRef.current) - 1).toISOString() : undefined
+      for (let page = 0; page < MAX_PAGES; page++) {
+        const params = webhookQueryParams({ callId: call.id, since, cursor, limit: MAX_WEBHOOK_PAGE_SIZE })
+        const res = await fetch(`/api/vapi-webhook?${params}`)
+        if (!res.ok) throw new Error(`HTTP ${res.status}`)
+        const body = await res.json()
+        fetched.push(...(body.events || []))
+        cursor = body.nextCursor
+        if (!cursor) break
+      }
+      setError(null)
+      if (fetched.length === 0) return
+      if (!newestRef.current || fetched[0].receivedAt > newestRef.current) newestRef.current = fetched[0].receivedAt
+      setWebhooks(prev => {
+        const known = new Set(prev.map(e => e.id))
+        const added = fetched.filter(e => !known.has(e.id))
+        return added.length > 0 ? [...prev, ...added] : prev
+      })
+    } catch (err) {
+      console.error('Failed to fetch webhook events for call', call.id, err)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+  }, [call.id])
+
+  const hasReport = webhooks.some(e => e.eventType === 'end-of-call-report')
+
+  // Poll while the call is live, and for a while after it ends until the report is in
+  useEffect(() => {
+    fetchWebhooks()
+    if (ended && hasReport) return
+    const interval = setInterval(fetchWebhooks, POLL_INTERVAL_MS)
+    const stop = ended ? setTimeout(() => clearInterval(interval), REPORT_WAIT_MS) : undefined
+    return () => {
+      clearInterval(interval)
+      if (stop) clearTimeout(stop)
+    }
+  }, [fetchWebhooks, ended, hasReport])
+
+  const timeline = useMemo(() => buildCallTimeline(call.id, webhooks, messages), [call.id, webhooks, messages])
+  const shown = timeline.filter(entry => shownSources.includes(entry.source) && (!highlightsOnly || entry.highlight))
+
+  const toggleSource = (source: TimelineSource, checked: boolean) => {
+    setShownSources(prev => checked ? [...prev, source] : prev.filter(s => s !== source))
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Call Timeline
+          <Badge variant="secondary">{timeline.length} events</Badge>
+          <Button size="sm" variant="outline" onClick={fetchWebhooks}>Refresh</Button>
+        </CardTitle>
+        <CardDescription>
+          Server URL webhooks, listen WebSocket messages, polls and control commands for this call, oldest first
+        </CardDescription>
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          {SOURCES.map(source => (
+            <label key={source} className="flex items-center space-x-1">
+              <input type="checkbox" checked={shownSources.includes(source)} onChange={(e) => toggleSource(source, e.target.checked)} />
+              <span>{source} ({timeline.filter(entry => entry.source === source).length})</span>
+            </label>
+          ))}
+          <label className="flex items-center space-x-1">
+            <input type="checkbox" checked={highlightsOnly} onChange={(e) => setHighlightsOnly(e.target.checked)} />
+            <span>Highlights only</span>
+          </label>
+        </div>
+        {error && <p className="text-xs text-red-600">Could not load webhook events: {error}</p>}
+      </CardHeader>
+      <CardContent>
+        {shown.length === 0 ? (
+          <p className="text-muted-foreground">
+            {timeline.length === 0 ? 'Nothing recorded for this call yet' : 'No events match these settings'}
+          </p>
+        ) : (
+          <div className="space-y-1 max-h-[400px] overflow-y-auto">
+            {shown.map(entry => (
+              <details key={entry.id} className={`p-2 border rounded text-sm ${entry.highlight ? HIGHLIGHT_STYLES[entry.highlight].className : ''}`}>
+                <summary className="cursor-pointer flex flex-wrap items-center gap-2">
+                  <span className="text-xs text-muted-foreground font-mono">{new Date(entry.at).toLocaleTimeString()}</span>
+                  <Badge variant={entry.source === 'webhook' ? 'default' : entry.source === 'listen' ? 'outline' : 'secondary'} className="text-xs">
+                    {entry.source}
+                  </Badge>
+                  {entry.highlight && <Badge variant="outline" className="text-xs">{HIGHLIGHT_STYLES[entry.highlight].label}</Badge>}
+                  <span className={entry.highlight ? 'font-medium' : 'text-gray-700'}>{entry.summary}</span>
+                </summary>
+                <pre className="mt-1 text-xs overflow-x-auto">
+                  {typeof entry.data === 'string' ? entry.data : JSON.stringify(entry.data, null, 2)}
+                </pre>
+              </details>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { formatPhoneNumber } from '@/lib/phone-number'
+import type { Call } from '@/lib/vapi-types'
+import { CallMonitorPanel, ENDED_CALL_STATUSES, LISTEN_STATE_BADGES, type CallMonitorSummary } from './call-monitor-panel'
+
+interface CallWorkspaceProps {
+  /** Calls being monitored, in the order they were placed. */
+  calls: Call[]
+  activeCallId: string | null
+  onSelect: (callId: string) => void
+  /** Stop monitoring a call (the call itself is not affected). */
+  onClose: (callId: string) => void
+}
+
+const isLive = (call: Call) => !ENDED_CALL_STATUSES.includes(call.status)
+
+function formatDuration(call: Call, now: number) {
+  const start = call.startedAt ?? call.createdAt
+  if (!start) return '—'
+  const end = call.endedAt ? Date.parse(call.endedAt) : now
+  const seconds = Math.max(0, Math.round((end - Date.parse(start)) / 1000))
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+function callLabel(call: Call) {
+  return call.customer?.number ? formatPhoneNumber(call.customer.number) : call.customer?.name || call.id.slice(0, 8)
+}
+
+/**
+ * Tabs for every monitored call plus a summary strip of the live ones. All panels stay mounted so
+ * background calls keep their listen connection, log and polling while another tab is shown.
+ */
+export function CallWorkspace({ calls, activeCallId, onSelect, onClose }: CallWorkspaceProps) {
+  const [summaries, setSummaries] = useState<Record<string, CallMonitorSummary>>({})
+  const [now, setNow] = useState(() => Date.now())
+
+  const updateSummary = useCallback((summary: CallMonitorSummary) => {
+    setSummaries(prev => ({ ...prev, [summary.call.id]: summary }))
+  }, [])
+
+  // Panels report the latest state of each call; fall back to the call as placed
+  const current = calls.map(call => summaries[call.id]?.call ?? call)
+  const live = current.filter(isLive)
+
+  // Tick durations while any call is live
+  useEffect(() => {
+    if (live.length === 0) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [live.length])
+
+  const close = (call: Call) => {
+    if (isLive(call) && !confirm(`Stop monitoring the call to ${callLabel(call)}? The call itself continues.`)) return
+    setSummaries(prev => {
+      const next = { ...prev }
+      delete next[call.id]
+      return next
+    })
+    onClose(call.id)
+  }
+
+  if (calls.length === 0) return null
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            Monitored Calls
+            <Badge variant={live.length > 0 ? 'default' : 'secondary'}>{live.length} live</Badge>
+          </CardTitle>
+          <CardDescription>
+            Each call placed from this page (or opened from Call History or the webhook monitor) is monitored in its own tab
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {live.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {live.map(call => {
+                const listenState = summaries[call.id]?.listenState ?? 'closed'
+                return (
+                  <button
+                    key={call.id}
+                    type="button"
+                    onClick={() => onSelect(call.id)}
+                    className={`flex items-center gap-2 px-2 py-1 border rounded text-xs ${call.id === activeCallId ? 'border-blue-500 bg-blue-50' : ''}`}
+                  >
+                    <span className="font-medium">{callLabel(call)}</span>
+                    <Badge variant="secondary" className="text-xs">{call.status}</Badge>
+                    <span className="font-mono">{formatDuration(call, now)}</span>
+                    <span title={`Listen: ${LISTEN_STATE_BADGES[listenState].label}`}>
+                      {listenState === 'open' ? '🎧' : listenState === 'failed' ? '⚠️' : '…'}
+                    </span>
+                  </button>
+                )
+              })}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-1 border-b">
+            {current.map(call => (
+              <div
+                key={call.id}
+                className={`flex items-center gap-1 px-2 py-1 text-sm rounded-t ${call.id === activeCallId ? 'bg-gray-100 font-medium' : 'text-gray-600'}`}
+              >
+                <button type="button" onClick={() => onSelect(call.id)}>
+                  {callLabel(call)}
+                  <span className="ml-1 text-xs text-gray-500">({call.status})</span>
+                </button>
+                <Button variant="ghost" size="sm" className="h-5 px-1 text-xs" onClick={() => close(call)} aria-label="Stop monitoring">
+                  ×
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      {calls.map(call => (
+        <div key={call.id} hidden={call.id !== activeCallId}>
+          <CallMonitorPanel call={call} onSummaryChange={updateSummary} />
+        </div>
+      ))}
+    </div>
+  )
+}
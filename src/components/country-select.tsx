@@ -0,0 +1,28 @@
+'use client'
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { COUNTRIES, countryFlag, type CountryCode } from '@/lib/phone-number'
+
+interface CountrySelectProps {
+  value: CountryCode
+  onChange: (country: CountryCode) => void
+  id?: string
+  className?: string
+}
+
+export function CountrySelect({ value, onChange, id, className }: CountrySelectProps) {
+  return (
+    <Select value={value} onValueChange={(code) => onChange(code as CountryCode)}>
+      <SelectTrigger id={id} className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {COUNTRIES.map((country) => (
+          <SelectItem key={country.code} value={country.code}>
+            {countryFlag(country.code)} {country.name} (+{country.callingCode})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
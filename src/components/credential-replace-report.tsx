@@ -0,0 +1,75 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import type { CredentialReplaceReport, CredentialReplaceStepStatus } from '@/lib/vapi-types'
+
+interface CredentialReplaceReportViewProps {
+  report: CredentialReplaceReport
+  onDismiss: () => void
+}
+
+const STEP_BADGES: Record<CredentialReplaceStepStatus, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  'done': 'default',
+  'failed': 'destructive',
+  'rolled-back': 'secondary',
+  'rollback-failed': 'destructive'
+}
+
+export function CredentialReplaceReportView({ report, onDismiss }: CredentialReplaceReportViewProps) {
+  const tone = report.success
+    ? 'bg-green-50 border-green-200'
+    : report.rolledBack
+      ? 'bg-yellow-50 border-yellow-200'
+      : 'bg-red-50 border-red-200'
+
+  return (
+    <div className={`p-3 border rounded-md text-sm space-y-2 ${tone}`}>
+      <div className="flex justify-between items-start">
+        <div>
+          <h4 className="font-medium">
+            {report.success
+              ? `Credential replaced (${report.oldCredentialId} → ${report.newCredential?.id})`
+              : report.rolledBack
+                ? 'Credential replacement failed — all changes were rolled back'
+                : 'Credential replacement failed — rollback incomplete, check the steps below'}
+          </h4>
+          {report.error && <p className="text-xs text-red-700 mt-1">{report.error}</p>}
+        </div>
+        <Button variant="ghost" size="sm" onClick={onDismiss} className="h-6 px-2 text-xs">
+          Dismiss
+        </Button>
+      </div>
+
+      {report.phoneNumbers.length > 0 && (
+        <div className="text-xs">
+          <span className="font-medium">Phone numbers:</span>
+          <ul className="mt-1 space-y-0.5">
+            {report.phoneNumbers.map((phone) => (
+              <li key={phone.previousId}>
+                <code>{phone.number || phone.previousId}</code> — {phone.action}
+                {phone.currentId && phone.currentId !== phone.previousId && ` (new ID ${phone.currentId})`}
+                {phone.action === 'deleted' && <span className="text-red-700"> — no longer exists, recreate it on a credential</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <details>
+        <summary className="text-xs cursor-pointer text-blue-600">Show {report.steps.length} step(s)</summary>
+        <ol className="mt-1 space-y-1 text-xs">
+          {report.steps.map((step, index) => (
+            <li key={index} className="flex items-start gap-2">
+              <Badge variant={STEP_BADGES[step.status]} className="text-xs">{step.status}</Badge>
+              <span>
+                {step.description}
+                {step.error && <span className="text-red-700"> — {step.error}</span>}
+              </span>
+            </li>
+          ))}
+        </ol>
+      </details>
+    </div>
+  )
+}
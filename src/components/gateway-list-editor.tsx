@@ -0,0 +1,154 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { newGatewayDraft, type GatewayDraft, type GatewayValidation } from '@/lib/sip-gateways'
+
+interface GatewayListEditorProps {
+  gateways: GatewayDraft[]
+  onChange: (gateways: GatewayDraft[]) => void
+  /** Result of `validateGatewayDrafts`, shown once the user has tried to save. */
+  errors?: GatewayValidation | null
+  disabled?: boolean
+}
+
+export function GatewayListEditor({ gateways, onChange, errors, disabled }: GatewayListEditorProps) {
+  const update = (index: number, changes: Partial<GatewayDraft>) => {
+    onChange(gateways.map((gateway, i) => (i === index ? { ...gateway, ...changes } : gateway)))
+  }
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= gateways.length) return
+    const next = [...gateways]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const remove = (index: number) => {
+    onChange(gateways.filter((_, i) => i !== index))
+  }
+
+  return (
+    <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+      {gateways.map((gateway, index) => {
+        const rowErrors = errors?.rows[index] || {}
+        return (
+          <div key={gateway.key} className="border rounded p-3 space-y-2">
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium">
+                Gateway {index + 1}
+                {index === 0 && gateways.length > 1 && <span className="text-xs text-gray-500 ml-2">(primary)</span>}
+              </span>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => move(index, -1)}
+                  disabled={disabled || index === 0}
+                  className="h-6 px-2 text-xs"
+                  aria-label={`Move gateway ${index + 1} up`}
+                >
+                  ↑
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => move(index, 1)}
+                  disabled={disabled || index === gateways.length - 1}
+                  className="h-6 px-2 text-xs"
+                  aria-label={`Move gateway ${index + 1} down`}
+                >
+                  ↓
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => remove(index)}
+                  disabled={disabled || gateways.length === 1}
+                  className="h-6 px-2 text-xs text-red-600"
+                >
+                  Remove
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-2">
+              <div className="col-span-2">
+                <Label htmlFor={`gateway-ip-${gateway.key}`} className="text-xs">IP Address</Label>
+                <Input
+                  id={`gateway-ip-${gateway.key}`}
+                  value={gateway.ip}
+                  onChange={(e) => update(index, { ip: e.target.value })}
+                  placeholder="192.168.1.100"
+                  disabled={disabled}
+                  aria-invalid={!!rowErrors.ip}
+                />
+                {rowErrors.ip && <p className="text-xs text-red-600 mt-1">{rowErrors.ip}</p>}
+              </div>
+              <div>
+                <Label htmlFor={`gateway-port-${gateway.key}`} className="text-xs">Port</Label>
+                <Input
+                  id={`gateway-port-${gateway.key}`}
+                  value={gateway.port}
+                  onChange={(e) => update(index, { port: e.target.value })}
+                  placeholder="5060"
+                  inputMode="numeric"
+                  disabled={disabled}
+                  aria-invalid={!!rowErrors.port}
+                />
+                {rowErrors.port && <p className="text-xs text-red-600 mt-1">{rowErrors.port}</p>}
+              </div>
+              <div>
+                <Label htmlFor={`gateway-netmask-${gateway.key}`} className="text-xs">Netmask</Label>
+                <Input
+                  id={`gateway-netmask-${gateway.key}`}
+                  value={gateway.netmask}
+                  onChange={(e) => update(index, { netmask: e.target.value })}
+                  placeholder="32"
+                  inputMode="numeric"
+                  disabled={disabled}
+                  aria-invalid={!!rowErrors.netmask}
+                />
+                {rowErrors.netmask && <p className="text-xs text-red-600 mt-1">{rowErrors.netmask}</p>}
+              </div>
+            </div>
+
+            <div className="flex gap-4 text-sm">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={gateway.inboundEnabled}
+                  onChange={(e) => update(index, { inboundEnabled: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span>Inbound Enabled</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={gateway.outboundEnabled}
+                  onChange={(e) => update(index, { outboundEnabled: e.target.checked })}
+                  disabled={disabled}
+                />
+                <span>Outbound Enabled</span>
+              </label>
+            </div>
+          </div>
+        )
+      })}
+
+      {errors?.list && <p className="text-xs text-red-600">{errors.list}</p>}
+
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onChange([...gateways, newGatewayDraft()])}
+        disabled={disabled}
+      >
+        Add Gateway
+      </Button>
+    </div>
+  )
+}
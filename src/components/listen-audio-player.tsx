@@ -0,0 +1,176 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+  DEFAULT_PCM_FORMAT,
+  PCM_SAMPLE_RATES,
+  type BufferHealth,
+  type PcmAudioPlayer,
+  type PcmChannelLayout,
+  type PcmFormat,
+  type PcmPlayerStats,
+  type StereoPlayback,
+} from '@/lib/pcm-audio-player'
+
+const STATS_INTERVAL_MS = 250
+
+const HEALTH_STYLES: Record<BufferHealth, { label: string, variant: 'default' | 'secondary' | 'destructive' | 'outline', bar: string }> = {
+  idle: { label: 'Waiting for audio', variant: 'outline', bar: 'bg-gray-300' },
+  starving: { label: 'Starving', variant: 'destructive', bar: 'bg-red-500' },
+  healthy: { label: 'Healthy', variant: 'default', bar: 'bg-green-500' },
+  overflowing: { label: 'High latency', variant: 'secondary', bar: 'bg-yellow-500' }
+}
+
+interface ListenAudioPlayerProps {
+  /** Player fed with the listen WebSocket's binary frames by the monitor. */
+  player: PcmAudioPlayer
+  /** Whether the listen WebSocket is currently connected. */
+  connected: boolean
+}
+
+export function ListenAudioPlayer({ player, connected }: ListenAudioPlayerProps) {
+  const [playing, setPlaying] = useState(player.active)
+  const [volume, setVolume] = useState(1)
+  const [muted, setMuted] = useState(false)
+  const [format, setFormat] = useState<PcmFormat>(DEFAULT_PCM_FORMAT)
+  const [stats, setStats] = useState<PcmPlayerStats | null>(null)
+
+  useEffect(() => {
+    if (!playing) return
+    const timer = setInterval(() => setStats(player.getStats()), STATS_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [player, playing])
+
+  // Release the audio device when the monitor goes away
+  useEffect(() => () => { void player.stop() }, [player])
+
+  const toggle = async () => {
+    if (playing) {
+      await player.stop()
+      setPlaying(false)
+      setStats(null)
+      return
+    }
+    try {
+      player.setFormat(format)
+      player.setVolume(volume)
+      player.setMuted(muted)
+      await player.start()
+      setPlaying(true)
+    } catch (error) {
+      console.error('Failed to start audio playback:', error)
+      alert(`Failed to start audio playback: ${error}`)
+    }
+  }
+
+  const updateFormat = (changes: Partial<PcmFormat>) => {
+    setFormat(prev => ({ ...prev, ...changes }))
+    player.setFormat(changes)
+  }
+
+  const health = HEALTH_STYLES[stats?.health ?? 'idle']
+
+  return (
+    <div className="p-3 border rounded space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-sm">🎧 Listen In</span>
+          {playing && <Badge variant={health.variant} className="text-xs">{health.label}</Badge>}
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => { setMuted(!muted); player.setMuted(!muted) }} disabled={!playing}>
+            {muted ? 'Unmute' : 'Mute'}
+          </Button>
+          <Button size="sm" onClick={toggle} variant={playing ? 'destructive' : 'default'}>
+            {playing ? 'Stop' : 'Play Audio'}
+          </Button>
+        </div>
+      </div>
+
+      {!connected && !playing && (
+        <p className="text-xs text-gray-500">Audio plays once the listen WebSocket is connected.</p>
+      )}
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <Label className="text-xs">Sample Rate</Label>
+          <Select value={String(format.sampleRate)} onValueChange={(value) => updateFormat({ sampleRate: Number(value) })}>
+            <SelectTrigger className="w-full h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PCM_SAMPLE_RATES.map(rate => (
+                <SelectItem key={rate} value={String(rate)}>{rate / 1000} kHz</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Channels</Label>
+          <Select value={format.channels} onValueChange={(value) => updateFormat({ channels: value as PcmChannelLayout })}>
+            <SelectTrigger className="w-full h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="mono">Mono</SelectItem>
+              <SelectItem value="stereo">Stereo (interleaved)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">Stereo Playback</Label>
+          <Select
+            value={format.stereoPlayback}
+            onValueChange={(value) => updateFormat({ stereoPlayback: value as StereoPlayback })}
+            disabled={format.channels !== 'stereo'}
+          >
+            <SelectTrigger className="w-full h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="both">Both channels</SelectItem>
+              <SelectItem value="left">Left only</SelectItem>
+              <SelectItem value="right">Right only</SelectItem>
+              <SelectItem value="mix">Mix to mono</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-3">
+        <Label htmlFor="listen-volume" className="text-xs w-14">Volume</Label>
+        <input
+          id="listen-volume"
+          type="range"
+          min={0}
+          max={1}
+          step={0.05}
+          value={volume}
+          onChange={(e) => {
+            const next = Number(e.target.value)
+            setVolume(next)
+            player.setVolume(next)
+          }}
+          className="flex-1"
+        />
+        <span className="text-xs w-10 text-right">{Math.round(volume * 100)}%</span>
+      </div>
+
+      {playing && stats && (
+        <div className="space-y-1">
+          <div className="w-full bg-gray-200 rounded h-1.5">
+            {/* Full bar = 1s of buffered audio, the most the player keeps queued */}
+            <div className={`${health.bar} h-1.5 rounded`} style={{ width: `${Math.min(100, stats.bufferedMs / 10)}%` }} />
+          </div>
+          <div className="text-xs text-gray-500">
+            Buffered {stats.bufferedMs}ms · {stats.framesPlayed} frames · {stats.underruns} underruns · {stats.droppedFrames} dropped
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
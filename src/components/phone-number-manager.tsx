@@ -6,20 +6,22 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { vapiService } from '@/lib/vapi-service'
-import { formatPhoneNumber } from '@/lib/utils'
-
-interface PhoneNumber {
-  id: string
-  name: string
-  number: string
-  provider: string
-  status: string
-  credentialId: string
-  numberE164CheckEnabled: boolean
-  createdAt: string
-  updatedAt: string
-}
+import { isAbortError } from '@/lib/vapi-errors'
+import { useUnmountSignal } from '@/hooks/use-unmount-signal'
+import {
+  draftToPhoneNumberUpdate,
+  phoneNumberToDraft,
+  validatePhoneNumberDraft,
+  type InboundRouting,
+  type PhoneNumberDraft,
+  type PhoneNumberDraftErrors,
+} from '@/lib/phone-number-form'
+import type { Assistant, CreatePhoneNumberInput, PhoneNumber } from '@/lib/vapi-types'
+import { formatPhoneNumber, parsePhoneNumber } from '@/lib/phone-number'
+import { useDefaultCountry } from '@/hooks/use-default-country'
+import { CountrySelect } from './country-select'
 
 interface PhoneNumberManagerProps {
   credentialId: string
@@ -29,9 +31,12 @@ interface PhoneNumberManagerProps {
 
 export function PhoneNumberManager({ credentialId, credentialName, onPhoneNumbersChange }: PhoneNumberManagerProps) {
   const [phoneNumbers, setPhoneNumbers] = useState<PhoneNumber[]>([])
+  const [assistants, setAssistants] = useState<Assistant[]>([])
   const [loading, setLoading] = useState(false)
   const [creating, setCreating] = useState(false)
   const [showAddForm, setShowAddForm] = useState(false)
+  const getSignal = useUnmountSignal()
+  const [defaultCountry, setDefaultCountry] = useDefaultCountry()
   
   // Form state
   const [formData, setFormData] = useState({
@@ -46,14 +51,28 @@ export function PhoneNumberManager({ credentialId, credentialName, onPhoneNumber
     }
   }, [credentialId])
 
+  useEffect(() => {
+    const fetchAssistants = async () => {
+      try {
+        // Only used to label and pick inbound assistants, so failures aren't fatal
+        setAssistants(await vapiService.getAssistants({ signal: getSignal() }))
+      } catch (error) {
+        if (isAbortError(error)) return
+        console.error('Failed to fetch assistants:', error)
+      }
+    }
+    fetchAssistants()
+  }, [getSignal])
+
   const fetchPhoneNumbers = async () => {
     if (!credentialId) return
     
     setLoading(true)
     try {
-      const numbers = await vapiService.getPhoneNumbersByCredential(credentialId)
+      const numbers = await vapiService.getPhoneNumbersByCredential(credentialId, { signal: getSignal() })
       setPhoneNumbers(numbers)
     } catch (error) {
+      if (isAbortError(error)) return
       console.error('Failed to fetch phone numbers:', error)
     } finally {
       setLoading(false)
@@ -66,19 +85,30 @@ export function PhoneNumberManager({ credentialId, credentialName, onPhoneNumber
       return
     }
 
+    // Without the E.164 check the number is sent as typed: BYO SIP numbers needn't be phone numbers
+    let number = formData.number.trim()
+    if (formData.numberE164CheckEnabled) {
+      const parsed = parsePhoneNumber(number, defaultCountry)
+      if (!parsed.ok) {
+        alert(`Invalid phone number: ${parsed.error}`)
+        return
+      }
+      number = parsed.phoneNumber.e164
+    }
+
     setCreating(true)
     try {
-      const phoneNumberData = {
+      const phoneNumberData: CreatePhoneNumberInput = {
         provider: 'byo-phone-number',
         name: formData.name,
-        number: formData.number,
+        number,
         numberE164CheckEnabled: formData.numberE164CheckEnabled,
         credentialId: credentialId
       }
 
       console.log('📞 Creating Phone Number:', {
         api: 'POST /phone-number',
-        description: `Associate phone number ${formData.number} with SIP trunk credential`,
+        description: `Associate phone number ${number} with SIP trunk credential`,
         payload: phoneNumberData,
         credentialId: credentialId,
         credentialName: credentialName
@@ -119,6 +149,21 @@ export function PhoneNumberManager({ credentialId, credentialName, onPhoneNumber
     }
   }
 
+  const updatePhoneNumber = async (phone: PhoneNumber, draft: PhoneNumberDraft) => {
+    const updates = draftToPhoneNumberUpdate(draft, phone)
+
+    console.log('📞 Updating Phone Number:', {
+      api: `PATCH /phone-number/${phone.id}`,
+      description: 'Update phone number settings and inbound routing',
+      payload: updates
+    })
+
+    const updated = await vapiService.updatePhoneNumber(phone.id, updates, { signal: getSignal() })
+    setPhoneNumbers(prev => prev.map(p => (p.id === updated.id ? updated : p)))
+  }
+
+  const numberCheck = formData.number && formData.numberE164CheckEnabled ? parsePhoneNumber(formData.number, defaultCountry) : null
+
   if (!credentialId) {
     return (
       <div className="text-center py-4 text-gray-500">
@@ -169,9 +214,26 @@ export function PhoneNumberManager({ credentialId, credentialName, onPhoneNumber
                   value={formData.number}
                   onChange={(e) => setFormData(prev => ({ ...prev, number: e.target.value }))}
                   placeholder="+1234567890"
+                  aria-invalid={!!numberCheck && !numberCheck.ok}
                 />
+                {formData.number && !numberCheck && (
+                  <p className="text-xs text-gray-500 mt-1">Saved as typed; enable E164 validation to normalise it</p>
+                )}
+                {numberCheck && (
+                  numberCheck.ok ? (
+                    <p className="text-xs text-green-700 mt-1">Saved as {numberCheck.phoneNumber.e164}</p>
+                  ) : (
+                    <p className="text-xs text-red-600 mt-1">{numberCheck.error}</p>
+                  )
+                )}
               </div>
             </div>
+
+            <div>
+              <Label htmlFor="phone-country">Default Country</Label>
+              <CountrySelect id="phone-country" value={defaultCountry} onChange={setDefaultCountry} className="w-full" />
+              <p className="text-xs text-gray-500 mt-1">Used for numbers entered without a + country code</p>
+            </div>
             
             <div className="flex items-center space-x-2">
               <input
@@ -204,36 +266,200 @@ export function PhoneNumberManager({ credentialId, credentialName, onPhoneNumber
             </div>
           ) : (
             phoneNumbers.map((phone) => (
-              <Card key={phone.id} className="p-3">
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <h5 className="font-semibold">{phone.name}</h5>
-                    <p className="text-lg font-mono">{formatPhoneNumber(phone.number)}</p>
-                    <p className="text-xs text-gray-600">ID: {phone.id}</p>
-                    <div className="flex gap-2 mt-2">
-                      <Badge variant={phone.status === "active" ? "default" : "secondary"}>
-                        {phone.status}
-                      </Badge>
-                      <Badge variant="outline">{phone.provider}</Badge>
-                      {phone.numberE164CheckEnabled && (
-                        <Badge variant="outline">E164</Badge>
-                      )}
-                    </div>
-                  </div>
-                  
-                  <Button 
-                    size="sm" 
-                    variant="destructive"
-                    onClick={() => deletePhoneNumber(phone.id, phone.number)}
-                  >
-                    Delete
-                  </Button>
-                </div>
-              </Card>
+              <PhoneNumberCard
+                key={phone.id}
+                phone={phone}
+                assistants={assistants}
+                onSave={(draft) => updatePhoneNumber(phone, draft)}
+                onDelete={() => deletePhoneNumber(phone.id, phone.number || phone.id)}
+              />
             ))
           )}
         </div>
       )}
     </div>
   )
-}
\ No newline at end of file
+}
+
+interface PhoneNumberCardProps {
+  phone: PhoneNumber
+  assistants: Assistant[]
+  onSave: (draft: PhoneNumberDraft) => Promise<void>
+  onDelete: () => void
+}
+
+function PhoneNumberCard({ phone, assistants, onSave, onDelete }: PhoneNumberCardProps) {
+  const [editing, setEditing] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [draft, setDraft] = useState<PhoneNumberDraft>(() => phoneNumberToDraft(phone))
+  const [errors, setErrors] = useState<PhoneNumberDraftErrors>({})
+
+  const inboundAssistant = assistants.find(a => a.id === phone.assistantId)
+
+  const update = <K extends keyof PhoneNumberDraft>(field: K, value: PhoneNumberDraft[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }))
+    setErrors(prev => ({ ...prev, [field]: undefined }))
+  }
+
+  const startEditing = () => {
+    setDraft(phoneNumberToDraft(phone))
+    setErrors({})
+    setEditing(true)
+  }
+
+  const save = async () => {
+    const validation = validatePhoneNumberDraft(draft)
+    setErrors(validation)
+    if (Object.keys(validation).length > 0) return
+
+    setSaving(true)
+    try {
+      await onSave(draft)
+      setEditing(false)
+    } catch (error) {
+      if (isAbortError(error)) return
+      console.error('Failed to update phone number:', error)
+      alert(`Failed to update phone number: ${error}`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Card className="p-3">
+      <div className="flex justify-between items-start">
+        <div className="flex-1">
+          <h5 className="font-semibold">{phone.name || 'Unnamed number'}</h5>
+          <p className="text-lg font-mono">{phone.number ? formatPhoneNumber(phone.number) : '—'}</p>
+          {phone.number && (
+            <p className="text-xs text-gray-600">National: {formatPhoneNumber(phone.number, 'national')}</p>
+          )}
+          <p className="text-xs text-gray-600">ID: {phone.id}</p>
+          <div className="flex gap-2 mt-2">
+            <Badge variant={phone.status === "active" ? "default" : "secondary"}>
+              {phone.status || 'unknown'}
+            </Badge>
+            <Badge variant="outline">{phone.provider}</Badge>
+            {phone.numberE164CheckEnabled && (
+              <Badge variant="outline">E164</Badge>
+            )}
+          </div>
+          <p className="text-xs text-gray-600 mt-2">
+            Inbound:{' '}
+            {phone.assistantId ? (
+              <span>assistant {inboundAssistant?.name || <code>{phone.assistantId}</code>}</span>
+            ) : phone.server?.url ? (
+              <span>server <code>{phone.server.url}</code></span>
+            ) : (
+              <span className="text-gray-500">not routed</span>
+            )}
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          {!editing && (
+            <Button size="sm" variant="outline" onClick={startEditing}>
+              Edit
+            </Button>
+          )}
+          <Button 
+            size="sm" 
+            variant="destructive"
+            onClick={onDelete}
+            disabled={saving}
+          >
+            Delete
+          </Button>
+        </div>
+      </div>
+
+      {editing && (
+        <div className="mt-3 pt-3 border-t space-y-3">
+          <div>
+            <Label htmlFor={`phone-name-${phone.id}`}>Display Name</Label>
+            <Input
+              id={`phone-name-${phone.id}`}
+              value={draft.name}
+              onChange={(e) => update('name', e.target.value)}
+              placeholder="My Phone Number"
+              aria-invalid={!!errors.name}
+            />
+            {errors.name && <p className="text-xs text-red-600 mt-1">{errors.name}</p>}
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id={`e164-check-${phone.id}`}
+              checked={draft.numberE164CheckEnabled}
+              onChange={(e) => update('numberE164CheckEnabled', e.target.checked)}
+            />
+            <Label htmlFor={`e164-check-${phone.id}`}>Enable E164 format validation</Label>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label className="mb-1">Inbound Calls</Label>
+              <Select value={draft.routing} onValueChange={(value) => update('routing', value as InboundRouting)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not routed</SelectItem>
+                  <SelectItem value="assistant">Assistant</SelectItem>
+                  <SelectItem value="server">Server URL (assistant-request)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {draft.routing === 'assistant' && (
+              <div>
+                <Label className="mb-1">Assistant</Label>
+                <Select value={draft.assistantId} onValueChange={(value) => update('assistantId', value)}>
+                  <SelectTrigger className="w-full" aria-invalid={!!errors.assistantId}>
+                    <SelectValue placeholder="Select an assistant" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Keep an assistant we couldn't load selectable */}
+                    {draft.assistantId && !assistants.some(a => a.id === draft.assistantId) && (
+                      <SelectItem value={draft.assistantId}>{draft.assistantId}</SelectItem>
+                    )}
+                    {assistants.map((assistant) => (
+                      <SelectItem key={assistant.id} value={assistant.id}>
+                        {assistant.name || assistant.id}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {errors.assistantId && <p className="text-xs text-red-600 mt-1">{errors.assistantId}</p>}
+              </div>
+            )}
+
+            {draft.routing === 'server' && (
+              <div>
+                <Label htmlFor={`phone-server-${phone.id}`} className="mb-1">Server URL</Label>
+                <Input
+                  id={`phone-server-${phone.id}`}
+                  value={draft.serverUrl}
+                  onChange={(e) => update('serverUrl', e.target.value)}
+                  placeholder="https://example.com/api/vapi-webhook"
+                  aria-invalid={!!errors.serverUrl}
+                />
+                {errors.serverUrl && <p className="text-xs text-red-600 mt-1">{errors.serverUrl}</p>}
+              </div>
+            )}
+          </div>
+
+          <div className="flex gap-2">
+            <Button size="sm" onClick={save} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
@@ -4,53 +4,254 @@ import { useEffect, useState, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getWebhookCallId, webhookCursor, webhookQueryParams, type WebhookEventQuery } from '@/lib/vapi-webhook-query'
+import type { WebhookEvent } from '@/lib/vapi-webhook-storage'
+import { useLatest } from '@/hooks/use-latest'
+import { WebhookReplayPanel } from './webhook-replay-panel'
+import { WebhookDeliveryPanel } from './webhook-delivery-panel'
 
-type WebhookEvent = {
-  id: string
-  receivedAt: string
-  payload: any
-  contentType?: string
-  size?: number
-  verified?: boolean
+type FeedMode = 'connecting' | 'streaming' | 'polling' | 'paused'
+
+const FEED_BADGES: Record<FeedMode, { label: string, variant: 'default' | 'secondary' | 'outline' }> = {
+  connecting: { label: 'Connecting', variant: 'outline' },
+  streaming: { label: 'Live', variant: 'default' },
+  polling: { label: 'Polling', variant: 'secondary' },
+  paused: { label: 'Paused', variant: 'secondary' },
+}
+
+const POLL_INTERVAL_MS = 3000
+// Stream errors in a row (without the stream opening) before falling back to polling
+const MAX_STREAM_FAILURES = 3
+// While polling, try the stream again this often
+const STREAM_RETRY_MS = 30000
+// Oldest events are dropped beyond this many, however many pages were loaded
+const MAX_SHOWN_EVENTS = 1000
+
+// Radix Select doesn't allow an empty item value, so "any" stands for "no filter"
+const ANY = 'any'
+const EVENT_TYPES = [
+  'assistant-request', 'conversation-update', 'end-of-call-report', 'hang', 'speech-update', 'status-update',
+  'tool-calls', 'transcript', 'transfer-destination-request', 'transfer-update', 'user-interrupted',
+]
+const EMPTY_FILTERS = { eventType: ANY, callId: '', phoneNumber: '', verified: ANY, since: '', until: '', text: '' }
+
+/** Merge two newest-first lists, dropping duplicates. */
+function mergeEvents(current: WebhookEvent[], incoming: WebhookEvent[]) {
+  const known = new Set(current.map(e => e.id))
+  const added = incoming.filter(e => !known.has(e.id))
+  if (added.length === 0) return current
+  return [...current, ...added]
+    .sort((a, b) => (a.receivedAt < b.receivedAt ? 1 : a.receivedAt > b.receivedAt ? -1 : 0))
+    .slice(0, MAX_SHOWN_EVENTS)
+}
+
+interface ServerWebhookMonitorProps {
+  /** Open a call's workspace tab, where its timeline correlates these events with the call. */
+  onOpenCall?: (callId: string) => void
+}
+
+/** The call an event belongs to; opens the call's timeline when the page supports it. */
+function CallLink({ evt, onOpenCall }: { evt: WebhookEvent } & ServerWebhookMonitorProps) {
+  const callId = getWebhookCallId(evt)
+  if (!callId) return null
+  if (!onOpenCall) return <span className="text-xs font-mono text-muted-foreground">Call {callId.slice(0, 8)}</span>
+  return (
+    <Button size="sm" variant="ghost" className="h-6 px-1 text-xs font-mono" onClick={() => onOpenCall(callId)} title="Open this call's timeline">
+      Call {callId.slice(0, 8)}
+    </Button>
+  )
 }
 
-export function ServerWebhookMonitor() {
+export function ServerWebhookMonitor({ onOpenCall }: ServerWebhookMonitorProps) {
   const [events, setEvents] = useState<WebhookEvent[]>([])
-  const [polling, setPolling] = useState(false)
-  const intervalRef = useRef<number | null>(null)
+  const [mode, setMode] = useState<FeedMode>('connecting')
   const [limit, setLimit] = useState<number>(50)
+  const [hasMore, setHasMore] = useState(false)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // Filter form state (datetime-local values, converted to ISO when applied)
+  const [filters, setFilters] = useState(EMPTY_FILTERS)
+  const [filtersActive, setFiltersActive] = useState(false)
+  // Events ticked for replay, in the order they were ticked
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  // The feed callbacks outlive renders, so they read these refs instead of state
+  const limitRef = useRef(limit)
+  const queryRef = useRef<WebhookEventQuery>({})
+  const sourceRef = useRef<EventSource | null>(null)
+  const intervalRef = useRef<number | null>(null)
+  const retryRef = useRef<number | null>(null)
+  const streamFailuresRef = useRef(0)
+  // Newest event seen, so a new stream resumes right after it
+  const lastEventIdRef = useRef<string | undefined>(undefined)
+  // Bumped when the filters change so responses for the old filters are ignored
+  const generationRef = useRef(0)
+
+  const fetchPage = async (cursor?: string) => {
+    const params = webhookQueryParams({ ...queryRef.current, limit: limitRef.current, cursor })
+    const res = await fetch(`/api/vapi-webhook?${params}`)
+    if (!res.ok) throw new Error(`HTTP ${res.status}`)
+    const body = await res.json()
+    return { events: (body.events || []) as WebhookEvent[], nextCursor: body.nextCursor as string | undefined }
+  }
 
   const fetchEvents = async () => {
+    const generation = generationRef.current
     try {
-      const res = await fetch(`/api/vapi-webhook?limit=${encodeURIComponent(String(limit))}`)
-      if (!res.ok) return
-      const body = await res.json()
-      setEvents(body.events || [])
+      const page = await fetchPage()
+      if (generation !== generationRef.current) return
+      if (page.events.length > 0) lastEventIdRef.current = page.events[0].id
+      // Merge rather than replace so pages loaded with "Load More" stay
+      setEvents(prev => mergeEvents(prev, page.events))
+      setHasMore(prev => prev || Boolean(page.nextCursor))
     } catch (err) {
       console.error('Failed to fetch webhook events', err)
     }
   }
 
-  useEffect(() => {
-    // start polling by default
-    setPolling(true)
-    fetchEvents()
-    intervalRef.current = window.setInterval(fetchEvents, 3000)
-    return () => {
-      if (intervalRef.current) clearInterval(intervalRef.current)
+  const loadMore = async () => {
+    const oldest = events[events.length - 1]
+    if (!oldest) return
+    const generation = generationRef.current
+    setLoadingMore(true)
+    try {
+      const page = await fetchPage(webhookCursor(oldest))
+      if (generation !== generationRef.current) return
+      setEvents(prev => mergeEvents(prev, page.events))
+      setHasMore(Boolean(page.nextCursor))
+    } catch (err) {
+      console.error('Failed to load older webhook events', err)
+    } finally {
+      setLoadingMore(false)
     }
-  }, [])
+  }
 
-  const togglePolling = () => {
-    if (polling) {
-      if (intervalRef.current) clearInterval(intervalRef.current)
-      intervalRef.current = null
-      setPolling(false)
+  const addEvent = (evt: WebhookEvent) => {
+    lastEventIdRef.current = evt.id
+    setEvents(prev => prev.some(e => e.id === evt.id) ? prev : [evt, ...prev].slice(0, MAX_SHOWN_EVENTS))
+  }
+
+  const stopPolling = () => {
+    if (intervalRef.current) clearInterval(intervalRef.current)
+    intervalRef.current = null
+    if (retryRef.current) clearTimeout(retryRef.current)
+    retryRef.current = null
+  }
+
+  const stopFeed = () => {
+    sourceRef.current?.close()
+    sourceRef.current = null
+    stopPolling()
+  }
+
+  // Keep events coming by polling, and give the stream another chance later
+  const fallBackToPolling = () => {
+    setMode('polling')
+    if (!intervalRef.current) {
+      fetchEvents()
+      intervalRef.current = window.setInterval(fetchEvents, POLL_INTERVAL_MS)
+    }
+    if (retryRef.current) clearTimeout(retryRef.current)
+    retryRef.current = window.setTimeout(startStream, STREAM_RETRY_MS)
+  }
+
+  const startStream = () => {
+    if (typeof EventSource === 'undefined') {
+      fallBackToPolling()
+      return
+    }
+    sourceRef.current?.close()
+    streamFailuresRef.current = 0
+    const params = webhookQueryParams({ ...queryRef.current, limit: limitRef.current })
+    if (lastEventIdRef.current) params.set('lastEventId', lastEventIdRef.current)
+    const source = new EventSource(`/api/vapi-webhook/stream?${params}`)
+    sourceRef.current = source
+    if (!intervalRef.current) setMode('connecting')
+
+    source.onopen = () => {
+      streamFailuresRef.current = 0
+      stopPolling()
+      setMode('streaming')
+    }
+    source.addEventListener('sync', (e) => {
+      // A full first page suggests older events; a resumed stream keeps what was known
+      const { resumed, count } = JSON.parse((e as MessageEvent<string>).data)
+      if (!resumed) setHasMore(prev => prev || count >= limitRef.current)
+    })
+    source.addEventListener('webhook', (e) => addEvent(JSON.parse((e as MessageEvent<string>).data)))
+    source.onerror = () => {
+      // EventSource reconnects by itself (sending Last-Event-ID); give up only if it can't get through
+      streamFailuresRef.current++
+      if (source.readyState === EventSource.CLOSED || streamFailuresRef.current >= MAX_STREAM_FAILURES) {
+        source.close()
+        if (sourceRef.current === source) sourceRef.current = null
+        fallBackToPolling()
+      } else if (!intervalRef.current) {
+        setMode('connecting')
+      }
+    }
+  }
+
+  const feedRef = useLatest({ start: startStream, stop: stopFeed })
+  useEffect(() => {
+    const { start, stop } = feedRef.current
+    start()
+    return stop
+  }, [feedRef])
+
+  const togglePaused = () => {
+    if (mode === 'paused') {
+      startStream()
     } else {
+      stopFeed()
+      setMode('paused')
+    }
+  }
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(prev => checked ? [...prev, id] : prev.filter(selectedId => selectedId !== id))
+  }
+
+  const selectedEvents = selectedIds.flatMap(id => events.find(e => e.id === id) ?? [])
+
+  const changeLimit = (value: number) => {
+    limitRef.current = value
+    setLimit(value)
+  }
+
+  // Start over with the given filters: clear the list and reopen the feed (unless paused)
+  const restartFeed = (query: WebhookEventQuery) => {
+    queryRef.current = query
+    generationRef.current++
+    lastEventIdRef.current = undefined
+    setEvents([])
+    setHasMore(false)
+    setFiltersActive(Object.values(query).some(value => value !== undefined))
+    if (mode === 'paused') {
+      // Show the first matching page; live updates wait for Resume
       fetchEvents()
-      intervalRef.current = window.setInterval(fetchEvents, 3000)
-      setPolling(true)
+      return
     }
+    stopFeed()
+    startStream()
+  }
+
+  const applyFilters = () => {
+    restartFeed({
+      eventType: filters.eventType !== ANY ? filters.eventType : undefined,
+      callId: filters.callId.trim() || undefined,
+      phoneNumber: filters.phoneNumber.trim() || undefined,
+      verified: filters.verified !== ANY ? filters.verified === 'verified' : undefined,
+      since: filters.since ? new Date(filters.since).toISOString() : undefined,
+      until: filters.until ? new Date(filters.until).toISOString() : undefined,
+      text: filters.text.trim() || undefined,
+    })
+  }
+
+  const resetFilters = () => {
+    setFilters(EMPTY_FILTERS)
+    restartFeed({})
   }
 
   return (
@@ -58,8 +259,13 @@ export function ServerWebhookMonitor() {
       <CardHeader>
         <div className="flex items-center justify-between">
           <div>
-            <CardTitle>Server Webhook Monitor</CardTitle>
-            <CardDescription>Shows recent Server URL events received by the server</CardDescription>
+            <CardTitle className="flex items-center gap-2">
+              Server Webhook Monitor
+              <Badge variant={FEED_BADGES[mode].variant} className="text-xs">{FEED_BADGES[mode].label}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Shows Server URL events as the server receives them{mode === 'polling' && ' (streaming unavailable, polling every few seconds)'}
+            </CardDescription>
           </div>
           <div className="flex items-center gap-2">
             <input
@@ -67,29 +273,123 @@ export function ServerWebhookMonitor() {
               min={1}
               max={200}
               value={limit}
-              onChange={(e) => setLimit(Number(e.target.value) || 50)}
+              onChange={(e) => changeLimit(Number(e.target.value) || 50)}
               className="w-20 text-sm p-1 border rounded"
-              title="Number of events to fetch"
+              title="Events per page"
             />
-            <Button size="sm" variant="outline" onClick={togglePolling}>{polling ? 'Pause' : 'Resume'}</Button>
+            <Button size="sm" variant="outline" onClick={togglePaused}>{mode === 'paused' ? 'Resume' : 'Pause'}</Button>
           </div>
         </div>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div>
+            <Label>Event type</Label>
+            <Select value={filters.eventType} onValueChange={(value) => setFilters(prev => ({ ...prev, eventType: value }))}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Any type" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any type</SelectItem>
+                {EVENT_TYPES.map(type => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="webhook-call-id">Call ID</Label>
+            <Input
+              id="webhook-call-id"
+              value={filters.callId}
+              onChange={(e) => setFilters(prev => ({ ...prev, callId: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="webhook-phone">Phone number</Label>
+            <Input
+              id="webhook-phone"
+              placeholder="Customer or VAPI number"
+              value={filters.phoneNumber}
+              onChange={(e) => setFilters(prev => ({ ...prev, phoneNumber: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label>Verification</Label>
+            <Select value={filters.verified} onValueChange={(value) => setFilters(prev => ({ ...prev, verified: value }))}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Verified or not</SelectItem>
+                <SelectItem value="verified">Verified only</SelectItem>
+                <SelectItem value="unverified">Unverified only</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="webhook-since">Received after</Label>
+            <Input
+              id="webhook-since"
+              type="datetime-local"
+              value={filters.since}
+              onChange={(e) => setFilters(prev => ({ ...prev, since: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="webhook-until">Received before</Label>
+            <Input
+              id="webhook-until"
+              type="datetime-local"
+              value={filters.until}
+              onChange={(e) => setFilters(prev => ({ ...prev, until: e.target.value }))}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label htmlFor="webhook-text">Search payloads</Label>
+            <Input
+              id="webhook-text"
+              placeholder="Text anywhere in the payload or headers"
+              value={filters.text}
+              onChange={(e) => setFilters(prev => ({ ...prev, text: e.target.value }))}
+              onKeyDown={(e) => e.key === 'Enter' && applyFilters()}
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button size="sm" onClick={applyFilters}>Apply Filters</Button>
+          <Button size="sm" variant="outline" onClick={resetFilters}>Reset</Button>
+        </div>
+
         {events.length === 0 ? (
-          <p className="text-muted-foreground">No webhook events yet</p>
+          <p className="text-muted-foreground">{filtersActive ? 'No webhook events match these filters' : 'No webhook events yet'}</p>
         ) : (
           <div className="space-y-2 max-h-[300px] overflow-y-auto">
             {events.map(evt => (
               <div key={evt.id} className="p-2 border rounded text-sm">
                 <div className="flex justify-between items-center mb-1">
                   <div className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(evt.id)}
+                      onChange={(e) => toggleSelected(evt.id, e.target.checked)}
+                      aria-label={`Select event ${evt.id} for replay`}
+                    />
                     <Badge variant="outline" className="text-xs">{evt.id}</Badge>
+                    {evt.eventType && <Badge variant="secondary" className="text-xs">{evt.eventType}</Badge>}
+                    {evt.reply && <Badge variant="outline" className="text-xs">Answered</Badge>}
                     {evt.verified ? (
-                      <Badge className="text-xs" variant="default">Verified</Badge>
+                      <Badge className="text-xs" variant="default">
+                        Verified{evt.authScheme === 'shared-secret' ? ' (secret)' : evt.authScheme === 'hmac' ? ' (HMAC)' : ''}
+                      </Badge>
                     ) : (
-                      <Badge className="text-xs" variant="secondary">Unverified</Badge>
+                      <Badge className="text-xs" variant="secondary" title={evt.authError}>Unverified</Badge>
+                    )}
+                    {!evt.verified && evt.authError && (
+                      <span className="text-xs text-muted-foreground">{evt.authError}</span>
                     )}
+                    <CallLink evt={evt} onOpenCall={onOpenCall} />
                   </div>
                   <div className="text-xs text-muted-foreground">
                     <div>{new Date(evt.receivedAt).toLocaleTimeString()}</div>
@@ -107,6 +407,13 @@ export function ServerWebhookMonitor() {
                       <pre className="text-xs overflow-x-auto">{JSON.stringify(evt.payload, null, 2)}</pre>
                     )}
 
+                    {evt.reply && (
+                      <details className="mt-2" open>
+                        <summary className="text-xs cursor-pointer text-gray-600">Reply sent to VAPI</summary>
+                        <pre className="text-xs overflow-x-auto">{JSON.stringify(evt.reply, null, 2)}</pre>
+                      </details>
+                    )}
+
                     <details className="mt-2">
                       <summary className="text-xs cursor-pointer text-gray-600">Headers</summary>
                       <pre className="text-xs overflow-x-auto">{JSON.stringify(evt.payload?.receivedHeaders || evt.payload?.headers || {}, null, 2)}</pre>
@@ -117,6 +424,16 @@ export function ServerWebhookMonitor() {
             ))}
           </div>
         )}
+
+        {hasMore && events.length > 0 && (
+          <Button variant="outline" size="sm" onClick={loadMore} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load More'}
+          </Button>
+        )}
+
+        <WebhookReplayPanel selected={selectedEvents} onClearSelection={() => setSelectedIds([])} />
+
+        <WebhookDeliveryPanel />
       </CardContent>
     </Card>
   )
@@ -7,25 +7,21 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Badge } from '@/components/ui/badge'
 import { vapiService } from '@/lib/vapi-service'
+import { isAbortError } from '@/lib/vapi-errors'
+import { useUnmountSignal } from '@/hooks/use-unmount-signal'
+import {
+  draftsToGateways,
+  gatewayToDraft,
+  hasGatewayErrors,
+  newGatewayDraft,
+  validateGatewayDrafts,
+  type GatewayDraft,
+  type GatewayValidation,
+} from '@/lib/sip-gateways'
+import type { CreateSipCredentialInput, CredentialReplaceReport, SipCredential, SipGateway } from '@/lib/vapi-types'
 import { PhoneNumberManager } from './phone-number-manager'
-
-interface SipGateway {
-  ip: string
-  inboundEnabled: boolean
-  outboundEnabled?: boolean
-}
-
-interface SipCredential {
-  id: string
-  name: string
-  provider: string
-  gateways: SipGateway[]
-  outboundAuthenticationPlan?: {
-    authUsername: string
-  }
-  createdAt: string
-  updatedAt: string
-}
+import { CredentialReplaceReportView } from './credential-replace-report'
+import { GatewayListEditor } from './gateway-list-editor'
 
 interface SipTrunkManagerProps {
   onCredentialSelect?: (credentialId: string) => void
@@ -39,15 +35,17 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
   const [showCreateForm, setShowCreateForm] = useState(false)
   const [selectedCredential, setSelectedCredential] = useState<string>('')
   const [showPhoneNumbers, setShowPhoneNumbers] = useState<Record<string, boolean>>({})
+  const getSignal = useUnmountSignal()
+  const [replacing, setReplacing] = useState<string | null>(null)
+  const [replaceReport, setReplaceReport] = useState<CredentialReplaceReport | null>(null)
   
   // Form state
   const [formData, setFormData] = useState({
     name: '',
-    gatewayIp: '',
-    authUsername: '',
-    inboundEnabled: true,
-    outboundEnabled: true
+    authUsername: ''
   })
+  const [gatewayDrafts, setGatewayDrafts] = useState<GatewayDraft[]>(() => [newGatewayDraft()])
+  const [gatewayErrors, setGatewayErrors] = useState<GatewayValidation | null>(null)
 
   useEffect(() => {
     fetchCredentials()
@@ -56,14 +54,14 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
   const fetchCredentials = async () => {
     setLoading(true)
     try {
-      const result = await vapiService.listCredentials()
-      // Filter for SIP trunk credentials
-      const sipCredentials = result.filter((cred: any) => cred.provider === 'byo-sip-trunk')
+      // Only SIP trunk credentials are managed here
+      const sipCredentials = await vapiService.getSipCredentials({ signal: getSignal() })
       setCredentials(sipCredentials)
       
       // Load phone number counts for each credential
       await loadPhoneNumberCounts(sipCredentials)
     } catch (error) {
+      if (isAbortError(error)) return
       console.error('Failed to fetch credentials:', error)
     } finally {
       setLoading(false)
@@ -75,9 +73,10 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
     
     for (const credential of credentialsList) {
       try {
-        const phoneNumbers = await vapiService.getPhoneNumbersByCredential(credential.id)
+        const phoneNumbers = await vapiService.getPhoneNumbersByCredential(credential.id, { signal: getSignal() })
         counts[credential.id] = phoneNumbers.length
       } catch (error) {
+        if (isAbortError(error)) return
         console.error(`Failed to load phone numbers for credential ${credential.id}:`, error)
         counts[credential.id] = 0
       }
@@ -99,23 +98,19 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
   }
 
   const createCredential = async () => {
-    if (!formData.name || !formData.gatewayIp) {
-      alert('Please fill in name and gateway IP')
+    const validation = validateGatewayDrafts(gatewayDrafts)
+    setGatewayErrors(validation)
+    if (!formData.name || hasGatewayErrors(validation)) {
+      alert('Please fill in a name and valid gateways')
       return
     }
 
     setCreating(true)
     try {
-      const credentialData = {
+      const credentialData: CreateSipCredentialInput = {
         provider: 'byo-sip-trunk',
         name: formData.name,
-        gateways: [
-          {
-            ip: formData.gatewayIp,
-            inboundEnabled: formData.inboundEnabled,
-            outboundEnabled: formData.outboundEnabled
-          }
-        ],
+        gateways: draftsToGateways(gatewayDrafts),
         ...(formData.authUsername && {
           outboundAuthenticationPlan: {
             authUsername: formData.authUsername
@@ -134,11 +129,10 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
       // Reset form
       setFormData({
         name: '',
-        gatewayIp: '',
-        authUsername: '',
-        inboundEnabled: true,
-        outboundEnabled: true
+        authUsername: ''
       })
+      setGatewayDrafts([newGatewayDraft()])
+      setGatewayErrors(null)
       setShowCreateForm(false)
       
       // Refresh list
@@ -151,42 +145,43 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
     }
   }
 
-  const updateGatewayIp = async (credentialId: string, newIp: string) => {
-    if (!newIp) return
+  const updateGateways = async (credentialId: string, gateways: SipGateway[], authPassword?: string) => {
+    if (gateways.length === 0) return
 
-    try {
-      const credential = credentials.find(c => c.id === credentialId)
-      if (!credential) return
+    const credential = credentials.find(c => c.id === credentialId)
+    if (!credential) return
 
-      // VAPI doesn't support direct credential updates
-      // We need to delete and recreate the credential
-      const updatedCredentialData = {
-        provider: 'byo-sip-trunk',
-        name: credential.name,
-        gateways: [
-          {
-            ...credential.gateways[0],
-            ip: newIp
-          }
-        ],
-        ...(credential.outboundAuthenticationPlan && {
-          outboundAuthenticationPlan: credential.outboundAuthenticationPlan
-        })
-      }
+    // The old credential is deleted at the end, so replacing it without the password would lose outbound auth for good
+    if (credential.outboundAuthenticationPlan && !authPassword) {
+      alert('This credential uses outbound authentication: enter its auth password to update the gateways')
+      return
+    }
 
-      // Delete the old credential
-      await vapiService.deleteCredential(credentialId)
-      
-      // Create the new credential with updated IP
-      await vapiService.createCredential(updatedCredentialData)
-      
-      // Refresh the list
-      await fetchCredentials()
-      
-      alert('Credential updated successfully (recreated with new IP)')
+    // VAPI doesn't support direct credential updates, so the credential is replaced:
+    // numbers bound to it are moved to the new credential before the old one is deleted
+    const updatedCredentialData: CreateSipCredentialInput = {
+      provider: 'byo-sip-trunk',
+      name: credential.name,
+      gateways,
+      ...(credential.outboundAuthenticationPlan && {
+        outboundAuthenticationPlan: { ...credential.outboundAuthenticationPlan, authPassword }
+      })
+    }
+
+    setReplacing(credentialId)
+    try {
+      const report = await vapiService.replaceCredential(credentialId, updatedCredentialData)
+      setReplaceReport(report)
+      if (!report.success) {
+        console.error('Failed to replace credential:', report)
+      }
     } catch (error) {
       console.error('Failed to update credential:', error)
-      alert('Failed to update credential. VAPI may not support credential updates.')
+      alert(`Failed to update credential: ${error}`)
+    } finally {
+      setReplacing(null)
+      // Refresh the list either way; a failed rollback can leave both credentials behind
+      await fetchCredentials()
     }
   }
 
@@ -209,9 +204,17 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
       </div>
 
       <div className="text-xs text-gray-500 bg-blue-50 p-2 rounded">
-        <strong>Note:</strong> Editing credentials will delete and recreate them with new settings due to VAPI API limitations.
+        <strong>Note:</strong> Editing credentials replaces them due to VAPI API limitations. Phone numbers are moved to the new credential before the old one is deleted, and every change is rolled back if a step fails.
       </div>
 
+      {replacing && (
+        <div className="text-sm text-gray-600">Replacing credential {replacing}...</div>
+      )}
+
+      {replaceReport && (
+        <CredentialReplaceReportView report={replaceReport} onDismiss={() => setReplaceReport(null)} />
+      )}
+
       {showCreateForm && (
         <Card>
           <CardHeader>
@@ -232,45 +235,26 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
                 />
               </div>
               <div>
-                <Label htmlFor="gatewayIp">Gateway IP Address</Label>
+                <Label htmlFor="authUsername">Auth Username (Optional)</Label>
                 <Input
-                  id="gatewayIp"
-                  value={formData.gatewayIp}
-                  onChange={(e) => setFormData(prev => ({ ...prev, gatewayIp: e.target.value }))}
-                  placeholder="192.168.1.100"
+                  id="authUsername"
+                  value={formData.authUsername}
+                  onChange={(e) => setFormData(prev => ({ ...prev, authUsername: e.target.value }))}
+                  placeholder="sip_username"
                 />
               </div>
             </div>
-            
+
             <div>
-              <Label htmlFor="authUsername">Auth Username (Optional)</Label>
-              <Input
-                id="authUsername"
-                value={formData.authUsername}
-                onChange={(e) => setFormData(prev => ({ ...prev, authUsername: e.target.value }))}
-                placeholder="sip_username"
+              <Label className="mb-2">Gateways</Label>
+              <GatewayListEditor
+                gateways={gatewayDrafts}
+                onChange={setGatewayDrafts}
+                errors={gatewayErrors}
+                disabled={creating}
               />
             </div>
 
-            <div className="flex gap-4">
-              <label className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  checked={formData.inboundEnabled}
-                  onChange={(e) => setFormData(prev => ({ ...prev, inboundEnabled: e.target.checked }))}
-                />
-                <span>Inbound Enabled</span>
-              </label>
-              <label className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  checked={formData.outboundEnabled}
-                  onChange={(e) => setFormData(prev => ({ ...prev, outboundEnabled: e.target.checked }))}
-                />
-                <span>Outbound Enabled</span>
-              </label>
-            </div>
-
             <Button 
               onClick={createCredential} 
               disabled={creating}
@@ -299,7 +283,7 @@ export function SipTrunkManager({ onCredentialSelect }: SipTrunkManagerProps) {
                 isSelected={selectedCredential === credential.id}
                 showPhoneNumbers={showPhoneNumbers[credential.id] || false}
                 onSelect={() => handleCredentialSelect(credential.id)}
-                onUpdateIp={(newIp) => updateGatewayIp(credential.id, newIp)}
+                onUpdateGateways={(gateways, authPassword) => updateGateways(credential.id, gateways, authPassword)}
                 onTogglePhoneNumbers={() => togglePhoneNumbers(credential.id)}
                 onPhoneNumbersChange={handlePhoneNumbersChange}
               />
@@ -317,7 +301,8 @@ interface CredentialCardProps {
   isSelected: boolean
   showPhoneNumbers: boolean
   onSelect: () => void
-  onUpdateIp: (newIp: string) => void
+  /** `authPassword` is required when the credential has outbound authentication. */
+  onUpdateGateways: (gateways: SipGateway[], authPassword?: string) => void
   onTogglePhoneNumbers: () => void
   onPhoneNumbersChange: () => void
 }
@@ -328,15 +313,40 @@ function CredentialCard({
   isSelected, 
   showPhoneNumbers, 
   onSelect, 
-  onUpdateIp, 
+  onUpdateGateways, 
   onTogglePhoneNumbers,
   onPhoneNumbersChange 
 }: CredentialCardProps) {
   const [editing, setEditing] = useState(false)
-  const [newIp, setNewIp] = useState(credential.gateways[0]?.ip || '')
+  const [drafts, setDrafts] = useState<GatewayDraft[]>([])
+  const [errors, setErrors] = useState<GatewayValidation | null>(null)
+  // VAPI doesn't return the auth password, so the replacement credential needs it typed again
+  const [authPassword, setAuthPassword] = useState('')
+  const [passwordError, setPasswordError] = useState<string | null>(null)
+  const needsPassword = Boolean(credential.outboundAuthenticationPlan)
+
+  const startEditing = () => {
+    setDrafts(credential.gateways.map(gatewayToDraft))
+    setErrors(null)
+    setAuthPassword('')
+    setPasswordError(null)
+    setEditing(true)
+  }
 
-  const handleUpdateIp = () => {
-    onUpdateIp(newIp)
+  const handleSaveGateways = () => {
+    const validation = validateGatewayDrafts(drafts)
+    setErrors(validation)
+    const missingPassword = needsPassword && !authPassword
+    setPasswordError(missingPassword ? 'Enter the auth password; the new credential needs it for outbound calls' : null)
+    if (hasGatewayErrors(validation) || missingPassword) return
+
+    const confirmed = confirm(
+      'This will replace the credential with a new one using these gateways and move its phone numbers over. Continue?'
+    )
+    if (!confirmed) return
+
+    onUpdateGateways(draftsToGateways(drafts, credential.gateways), needsPassword ? authPassword : undefined)
+    setAuthPassword('')
     setEditing(false)
   }
 
@@ -351,65 +361,83 @@ function CredentialCard({
         <CardContent className="p-4">
           <div className="flex justify-between items-start">
             <div className="flex-1">
-              <h4 className="font-semibold">{credential.name}</h4>
+              <h4 className="font-semibold">{credential.name || 'Unnamed credential'}</h4>
               <p className="text-sm text-gray-600">ID: {credential.id}</p>
               
               <div className="mt-2 space-y-1">
-                <div className="flex items-center gap-2">
-                  <span className="text-sm">Gateway IP:</span>
-                  {editing ? (
-                    <div className="flex items-center gap-2">
-                      <Input
-                        value={newIp}
-                        onChange={(e) => setNewIp(e.target.value)}
-                        className="w-40 h-6 text-sm"
-                        onClick={(e) => e.stopPropagation()}
-                      />
-                      <Button 
-                        size="sm" 
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          const confirmed = confirm(
-                            'This will delete and recreate the credential with the new IP address. Continue?'
-                          )
-                          if (confirmed) {
-                            handleUpdateIp()
-                          }
-                        }}
-                        className="h-6 px-2 text-xs"
-                      >
-                        Save
-                      </Button>
-                      <Button 
-                        size="sm" 
-                        variant="outline"
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          setEditing(false)
-                          setNewIp(credential.gateways[0]?.ip || '')
-                        }}
-                        className="h-6 px-2 text-xs"
-                      >
-                        Cancel
-                      </Button>
-                    </div>
-                  ) : (
-                    <div className="flex items-center gap-2">
-                      <code className="text-sm bg-gray-100 px-2 py-1 rounded">
-                        {credential.gateways[0]?.ip}
-                      </code>
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm">
+                      Gateway{credential.gateways.length !== 1 ? 's' : ''}:
+                    </span>
+                    {!editing && (
                       <Button 
                         size="sm" 
                         variant="ghost"
                         onClick={(e) => {
                           e.stopPropagation()
-                          setEditing(true)
+                          startEditing()
                         }}
                         className="h-6 px-2 text-xs"
                       >
                         Edit
                       </Button>
+                    )}
+                  </div>
+                  {editing ? (
+                    <div className="mt-2 space-y-2" onClick={(e) => e.stopPropagation()}>
+                      <GatewayListEditor gateways={drafts} onChange={setDrafts} errors={errors} />
+                      {needsPassword && (
+                        <div>
+                          <Label htmlFor={`authPassword-${credential.id}`} className="text-xs">Auth Password</Label>
+                          <Input
+                            id={`authPassword-${credential.id}`}
+                            type="password"
+                            autoComplete="off"
+                            value={authPassword}
+                            onChange={(e) => setAuthPassword(e.target.value)}
+                            placeholder={`Password for ${credential.outboundAuthenticationPlan?.authUsername || 'outbound auth'}`}
+                          />
+                          {passwordError && <p className="text-xs text-red-600 mt-1">{passwordError}</p>}
+                        </div>
+                      )}
+                      <div className="flex gap-2">
+                        <Button 
+                          size="sm" 
+                          onClick={handleSaveGateways}
+                          className="h-6 px-2 text-xs"
+                        >
+                          Save
+                        </Button>
+                        <Button 
+                          size="sm" 
+                          variant="outline"
+                          onClick={() => setEditing(false)}
+                          className="h-6 px-2 text-xs"
+                        >
+                          Cancel
+                        </Button>
+                      </div>
                     </div>
+                  ) : (
+                    <ul className="mt-1 space-y-1">
+                      {credential.gateways.map((gateway, index) => (
+                        <li key={`${gateway.ip}:${gateway.port ?? ''}:${index}`} className="flex items-center gap-2 text-sm">
+                          <code className="bg-gray-100 px-2 py-1 rounded">
+                            {gateway.ip}{gateway.port !== undefined && `:${gateway.port}`}{gateway.netmask !== undefined && `/${gateway.netmask}`}
+                          </code>
+                          {index === 0 && credential.gateways.length > 1 && (
+                            <span className="text-xs text-gray-500">primary</span>
+                          )}
+                          {gateway.inboundEnabled !== false && (
+                            <Badge variant="secondary">Inbound</Badge>
+                          )}
+                          {gateway.outboundEnabled !== false && (
+                            <Badge variant="secondary">Outbound</Badge>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
                   )}
                 </div>
                 
@@ -422,15 +450,6 @@ function CredentialCard({
                   </div>
                 )}
                 
-                <div className="flex gap-2 mt-2">
-                  {credential.gateways[0]?.inboundEnabled && (
-                    <Badge variant="secondary">Inbound</Badge>
-                  )}
-                  {credential.gateways[0]?.outboundEnabled && (
-                    <Badge variant="secondary">Outbound</Badge>
-                  )}
-                </div>
-
                 <div className="flex items-center gap-2 mt-2">
                   <Badge variant="outline">
                     {phoneNumberCount} Phone Number{phoneNumberCount !== 1 ? 's' : ''}
@@ -461,7 +480,7 @@ function CredentialCard({
         <div className="ml-4">
           <PhoneNumberManager
             credentialId={credential.id}
-            credentialName={credential.name}
+            credentialName={credential.name || credential.id}
             onPhoneNumbersChange={onPhoneNumbersChange}
           />
         </div>
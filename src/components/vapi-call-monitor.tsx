@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -9,89 +9,43 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { vapiService } from "@/lib/vapi-service";
-import { formatPhoneNumber, validateE164PhoneNumber } from "@/lib/utils";
+import { isAbortError } from "@/lib/vapi-errors";
+import { useUnmountSignal } from "@/hooks/use-unmount-signal";
+import type { Assistant, Call, PhoneNumber } from "@/lib/vapi-types";
+import { formatPhoneNumber, formatNational, parsePhoneNumber } from "@/lib/phone-number";
+import { useDefaultCountry } from "@/hooks/use-default-country";
+import { CountrySelect } from "./country-select";
 import { SipTrunkManager } from "./sip-trunk-manager";
 import { VapiDiagnostics } from "./vapi-diagnostics";
 import { ApiCallMonitor } from "./api-call-monitor";
+import { CallHistory } from "./call-history";
+import { CallCampaignPanel } from "./call-campaign";
+import { coerceMetadataValue } from "@/lib/call-campaign";
+import { AssistantEditor } from "./assistant-editor";
+import { CallWorkspace } from "./call-workspace";
 import ServerWebhookMonitor from './server-webhook-monitor'
 
-interface PhoneNumber {
-  id: string;
-  name: string;
-  number: string;
-  provider: string;
-  status: string;
-}
-
-interface Assistant {
-  id: string;
-  name: string;
-  model?: {
-    provider?: string;
-    model?: string;
-  };
-  voice?: {
-    provider?: string;
-    voiceId?: string;
-  };
-  firstMessage?: string;
-}
-
-interface CallResponse {
-  id: string;
-  status: string;
-  assistantId?: string;
-  phoneNumberId?: string;
-  customer?: {
-    number: string;
-    name?: string;
-  };
-  monitor?: {
-    listenUrl: string;
-    controlUrl: string;
-  };
-  createdAt?: string;
-  updatedAt?: string;
-  cost?: number;
-  transcript?: string;
-  recordingUrl?: string;
-  summary?: string;
-  endedReason?: string;
-}
-
-interface WebSocketMessage {
-  type: string;
-  data: any;
-  timestamp: string;
-  source?: 'listen' | 'poll'; // Track which source the message came from
-}
-
-interface WebSocketConnection {
-  url: string;
-  ws: WebSocket | null;
-  connected: boolean;
-  retryCount: number;
-}
-
 export function VapiCallMonitor() {
   const [phoneNumbers, setPhoneNumbers] = useState<PhoneNumber[]>([]);
   const [assistants, setAssistants] = useState<Assistant[]>([]);
   const [selectedPhoneNumber, setSelectedPhoneNumber] = useState<string>("");
   const [targetNumber, setTargetNumber] = useState<string>("");
+  const [defaultCountry, setDefaultCountry] = useDefaultCountry();
   const [assistantId, setAssistantId] = useState<string>("");
   const [loading, setLoading] = useState<boolean>(false);
-  const [apiResponse, setApiResponse] = useState<CallResponse | null>(null);
+  const [apiResponse, setApiResponse] = useState<Call | null>(null);
   const [apiRequest, setApiRequest] = useState<any>(null);
-  const [wsMessages, setWsMessages] = useState<WebSocketMessage[]>([]);
-  // Only listen connections are opened via WebSocket in the browser.
-  const [wsConnection, setWsConnection] = useState<WebSocketConnection>({ url: '', ws: null, connected: false, retryCount: 0 });
-  const [currentCall, setCurrentCall] = useState<CallResponse | null>(null);
+  // Calls monitored in the workspace (each with its own listen connection, log and polling)
+  const [monitoredCalls, setMonitoredCalls] = useState<Call[]>([]);
+  const [activeCallId, setActiveCallId] = useState<string | null>(null);
   const [manualCallMode, setManualCallMode] = useState<boolean>(false);
   const [rawCallResponse, setRawCallResponse] = useState<string>("");
   const [customMetadata, setCustomMetadata] = useState<Array<{key: string, value: string, id: number}>>([]);
   const [metadataCounter, setMetadataCounter] = useState(0);
-  const listenWsRef = useRef<WebSocket | null>(null);
-  const pollRef = useRef<number | null>(null);
+  // Assistant being edited in the editor card: an assistant, 'new' for create, or null when closed
+  const [editingAssistant, setEditingAssistant] = useState<Assistant | 'new' | null>(null);
+  // Aborted on unmount so list loads and call setup don't outlive the component
+  const getSignal = useUnmountSignal();
 
   // Load phone numbers and assistants on component mount
   useEffect(() => {
@@ -121,16 +75,8 @@ export function VapiCallMonitor() {
     const metadata: Record<string, any> = {};
     customMetadata.forEach(field => {
       if (field.key.trim() && field.value.trim()) {
-        // Try to parse as JSON if it looks like JSON, otherwise treat as string
-        try {
-          if (field.value.startsWith('{') || field.value.startsWith('[') || field.value === 'true' || field.value === 'false' || !isNaN(Number(field.value))) {
-            metadata[field.key.trim()] = JSON.parse(field.value);
-          } else {
-            metadata[field.key.trim()] = field.value;
-          }
-        } catch {
-          metadata[field.key.trim()] = field.value;
-        }
+        // Parse as JSON if it looks like JSON, otherwise treat as string
+        metadata[field.key.trim()] = coerceMetadataValue(field.value);
       }
     });
     return metadata;
@@ -138,31 +84,33 @@ export function VapiCallMonitor() {
 
   const loadPhoneNumbers = async () => {
     try {
-      const numbers = await vapiService.getPhoneNumbers();
+      const numbers = await vapiService.getPhoneNumbers({ signal: getSignal() });
       setPhoneNumbers(numbers);
       if (numbers.length > 0) {
         setSelectedPhoneNumber(numbers[0].id);
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Failed to load phone numbers:", error);
     }
   };
 
   const loadAssistants = async () => {
     try {
-      const assistantsList = await vapiService.getAssistants();
+      const assistantsList = await vapiService.getAssistants({ signal: getSignal() });
       setAssistants(assistantsList);
       if (assistantsList.length > 0) {
         setAssistantId(assistantsList[0].id);
       }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Failed to load assistants:", error);
     }
   };
 
   const checkAssistantMonitoring = async (assistantIdToCheck: string) => {
     try {
-      const status = await vapiService.verifyAssistantMonitoring(assistantIdToCheck);
+      const status = await vapiService.verifyAssistantMonitoring(assistantIdToCheck, { signal: getSignal() });
       const { monitoring, recommendation } = status;
       
       alert(`📊 Assistant Monitoring Status:
@@ -174,6 +122,7 @@ export function VapiCallMonitor() {
 
 💡 Recommendation: ${recommendation}`);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to check monitoring status:', error);
       alert(`❌ Failed to check monitoring status: ${error}`);
     }
@@ -181,11 +130,12 @@ export function VapiCallMonitor() {
 
   const enableAssistantMonitoring = async (assistantIdToEnable: string) => {
     try {
-      await vapiService.enableAssistantMonitoring(assistantIdToEnable);
+      await vapiService.enableAssistantMonitoring(assistantIdToEnable, { signal: getSignal() });
       alert(`✅ Monitoring enabled for assistant ${assistantIdToEnable}`);
       // Refresh assistants list to show updated monitoring status
       await loadAssistants();
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to enable monitoring:', error);
       alert(`❌ Failed to enable monitoring: ${error}`);
     }
@@ -197,11 +147,16 @@ export function VapiCallMonitor() {
       return;
     }
 
+    // Validate against the default country's numbering plan and normalise to E.164
+    const parsedTarget = parsePhoneNumber(targetNumber, defaultCountry);
+    if (!parsedTarget.ok) {
+      alert(`Invalid phone number: ${parsedTarget.error}`);
+      return;
+    }
+    const formattedTargetNumber = parsedTarget.phoneNumber.e164;
+
     setLoading(true);
     try {
-      // Validate and format the target number to E.164
-      const formattedTargetNumber = validateE164PhoneNumber(targetNumber);
-      
       const request = {
         assistantId,
         phoneNumberId: selectedPhoneNumber,
@@ -238,19 +193,13 @@ export function VapiCallMonitor() {
         selectedPhoneNumber,
         formattedTargetNumber,
         `Customer ${formattedTargetNumber}`,
-        metadata
+        metadata,
+        { signal: getSignal() }
       );
       setApiResponse(response);
-      setCurrentCall(response);
-      
-      // Connect to listen WebSocket URL if available; controlUrl is informational
-      if (response.monitor?.listenUrl) {
-        connectWebSockets(response.monitor.listenUrl, response.monitor.controlUrl);
-      } else if (response.id) {
-        // If no monitor URLs provided, start polling the call endpoint for updates
-        startPollingCall(response.id);
-      }
+      monitorCall(response);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Failed to make call:", error);
       alert("Failed to make call. Check console for details.");
     } finally {
@@ -258,152 +207,31 @@ export function VapiCallMonitor() {
     }
   };
 
-  const startPollingCall = (callId: string) => {
-    stopPollingCall();
-    addWsMessage('poll', `Starting polling for call ${callId}`, 'poll');
-    // Poll every 3s
-    pollRef.current = window.setInterval(async () => {
-      try {
-        const updated = await vapiService.getCall(callId);
-        addWsMessage('poll', { callId, updated }, 'poll');
-
-        // Update current call state
-        setCurrentCall(updated);
-
-        // If monitor URLs appear, connect and stop polling
-        if (updated?.monitor?.listenUrl || updated?.monitor?.controlUrl) {
-          addWsMessage('connection', `Discovered monitor URLs via polling`, 'poll');
-          connectWebSockets(updated.monitor.listenUrl, updated.monitor.controlUrl);
-          stopPollingCall();
-        }
-
-        // Stop polling if call ended
-        if (updated?.status && ['ended', 'completed', 'failed'].includes(updated.status)) {
-          addWsMessage('poll', `Call ${callId} ended with status ${updated.status}, stopping poll`, 'poll');
-          stopPollingCall();
-        }
-      } catch (err) {
-        addWsMessage('error', `Polling error for call ${callId}: ${err}`, 'poll');
-      }
-    }, 3000);
-  };
-
-  const stopPollingCall = () => {
-    if (pollRef.current) {
-      clearInterval(pollRef.current);
-      pollRef.current = null;
-      addWsMessage('poll', 'Stopped polling for call updates', 'poll');
-    }
-  };
-
-  const connectWebSockets = (listenUrl?: string, controlUrl?: string) => {
-    // Close existing listen connection, then open new one if provided.
-    disconnectWebSockets();
-    if (listenUrl) connectWebSocket(listenUrl);
-
-    // Control URLs are informational only in the browser UI (not opened as WebSockets).
-    if (controlUrl) addWsMessage('info', `Control URL provided (not opened in browser): ${controlUrl}`, 'listen');
+  // Open a workspace tab for a new call; its panel connects to the listen WebSocket or polls the call
+  const monitorCall = (call: Call) => {
+    setMonitoredCalls(prev => prev.some(c => c.id === call.id) ? prev : [...prev, call]);
+    setActiveCallId(call.id);
   };
 
-  const disconnectWebSockets = () => {
-    if (listenWsRef.current) {
-      listenWsRef.current.close();
-      listenWsRef.current = null;
+  // Open a call seen in the webhook monitor; already monitored calls just get their tab selected
+  const openCall = async (callId: string) => {
+    if (monitoredCalls.some(c => c.id === callId)) {
+      setActiveCallId(callId);
+      return;
     }
-    setWsConnection(prev => ({ ...prev, connected: false, retryCount: 0 }));
-  };
-
-  const connectWebSocket = (wsUrl: string) => {
     try {
-      addWsMessage('connection', `Connecting to listen WebSocket: ${wsUrl}`, 'listen');
-      const ws = new WebSocket(wsUrl);
-      listenWsRef.current = ws;
-
-      // Update connection state
-      setWsConnection(prev => ({ ...prev, url: wsUrl, ws, retryCount: 0 }));
-
-      // Ensure we treat listen streams as binary when appropriate (audio frames)
-      try { ws.binaryType = 'arraybuffer'; } catch {}
-
-      // Set timeout for connection
-      const connectionTimeout = setTimeout(() => {
-        if (ws.readyState === WebSocket.CONNECTING) {
-          ws.close();
-          addWsMessage('error', `Listen WebSocket connection timeout after 10 seconds`, 'listen');
-          setWsConnection(prev => ({ ...prev, connected: false }));
-        }
-      }, 10000);
-
-      ws.onopen = () => {
-        clearTimeout(connectionTimeout);
-        setWsConnection(prev => ({ ...prev, connected: true }));
-        addWsMessage('connection', `Listen WebSocket connected successfully`, 'listen');
-      };
-
-      ws.onmessage = (event: MessageEvent) => {
-        // Normalize all incoming payload types (string, Blob, ArrayBuffer, object)
-        (async () => {
-          const { parsed, isJson, raw, isBinary, url, size } = await normalizeWsData(event.data);
-
-          if (isJson && parsed) {
-            // If parsed JSON looks like a structured event, treat as a message
-            addWsMessage("message", parsed, 'listen');
-
-            // Update call status if it's a status update
-            if (parsed && parsed.type === "status-update" && currentCall) {
-              setCurrentCall(prev => prev ? { ...prev, ...parsed.call } : null);
-            }
-          } else if (isBinary) {
-            // For binary audio/data create a download entry and mark as raw-binary
-            addWsMessage("raw", { binary: true, url, size }, 'listen');
-          } else {
-            // For non-JSON payloads preserve human-readable text in the 'raw' message type
-            addWsMessage("raw", parsed || raw || String(event.data), 'listen');
-          }
-        })().catch(err => {
-          addWsMessage('error', `Failed to parse incoming WS message: ${err}`, 'listen');
-        });
-      };
-
-      ws.onclose = (event: CloseEvent) => {
-        clearTimeout(connectionTimeout);
-        setWsConnection(prev => ({ ...prev, connected: false }));
-
-        if (event.wasClean) {
-          addWsMessage('connection', `Listen WebSocket disconnected cleanly (code: ${event.code})`, 'listen');
-        } else {
-          addWsMessage('connection', `Listen WebSocket disconnected unexpectedly (code: ${event.code}, reason: ${event.reason})`, 'listen');
-          // Retry logic based on single listen connection state
-          if (wsConnection.retryCount < 3) {
-            const retryDelay = Math.pow(2, wsConnection.retryCount) * 1000; // Exponential backoff
-            setTimeout(() => {
-              addWsMessage('connection', `Retrying listen connection (attempt ${wsConnection.retryCount + 1}/3) in ${retryDelay/1000}s...`, 'listen');
-              setWsConnection(prev => ({ ...prev, retryCount: prev.retryCount + 1 }));
-              connectWebSocket(wsUrl);
-            }, retryDelay);
-          }
-        }
-      };
-
-      ws.onerror = (error: Event) => {
-        clearTimeout(connectionTimeout);
-        addWsMessage('error', `Listen WebSocket error: ${error}`, 'listen');
-        setWsConnection(prev => ({ ...prev, connected: false }));
-      };
+      monitorCall(await vapiService.getCall(callId, { signal: getSignal() }));
     } catch (error) {
-      console.error('Failed to connect listen WebSocket:', error);
-      addWsMessage('error', `Failed to create listen WebSocket connection: ${error}`, 'listen');
+      if (isAbortError(error)) return;
+      console.error("Failed to open call:", error);
+      alert(`Failed to load call ${callId}: ${error}`);
     }
   };
 
-  const addWsMessage = (type: string, data: any, source: 'listen' | 'poll' = 'listen') => {
-    const message: WebSocketMessage = {
-      type,
-      data,
-      timestamp: new Date().toISOString(),
-      source
-    };
-    setWsMessages(prev => [...prev, message].slice(-100)); // Keep last 100 messages
+  const stopMonitoringCall = (callId: string) => {
+    const remaining = monitoredCalls.filter(c => c.id !== callId);
+    setMonitoredCalls(remaining);
+    if (activeCallId === callId) setActiveCallId(remaining.length > 0 ? remaining[remaining.length - 1].id : null);
   };
 
   const makeManualCall = async () => {
@@ -428,19 +256,15 @@ export function VapiCallMonitor() {
         callData.assistantId,
         callData.phoneNumberId,
         callData.customer.number,
-        callData.customer.name
+        callData.customer.name,
+        undefined,
+        { signal: getSignal() }
       );
       
       setApiResponse(response);
-      setCurrentCall(response);
-      
-      // Connect to listen WebSocket URL if available; controlUrl is informational
-      if (response.monitor?.listenUrl) {
-        connectWebSockets(response.monitor.listenUrl, response.monitor.controlUrl);
-      } else if (response.id) {
-        startPollingCall(response.id);
-      }
+      monitorCall(response);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Failed to make manual call:", error);
       alert("Failed to make manual call. Check console for details.");
     } finally {
@@ -448,82 +272,7 @@ export function VapiCallMonitor() {
     }
   };
 
-  const normalizeWsData = async (data: any): Promise<{ parsed: any; isJson: boolean; raw: string; isBinary?: boolean; url?: string; size?: number }> => {
-    try {
-      // If already a string, try to parse JSON
-      if (typeof data === 'string') {
-        try {
-          return { parsed: JSON.parse(data), isJson: true, raw: data };
-        } catch {
-          return { parsed: data, isJson: false, raw: data };
-        }
-      }
-
-      // If it's a Blob (binary text), read as text or arrayBuffer
-      if (typeof Blob !== 'undefined' && data instanceof Blob) {
-        // Try to detect if it's text-like by reading a small slice
-        const slice = data.slice(0, 256);
-        const text = await slice.text();
-        try {
-          return { parsed: JSON.parse(text), isJson: true, raw: text };
-        } catch {
-          // treat as binary: create object URL and return
-          const fullArrayBuffer = await data.arrayBuffer();
-          const size = fullArrayBuffer.byteLength;
-          const blob = new Blob([fullArrayBuffer], { type: 'application/octet-stream' });
-          const url = URL.createObjectURL(blob);
-          return { parsed: { binary: true }, isJson: false, raw: '', isBinary: true, url, size };
-        }
-      }
-
-      // If it's an ArrayBuffer, decode it or treat as binary
-      if (data instanceof ArrayBuffer) {
-        // Heuristic: check printable ratio to decide whether it's text
-        const bytes = new Uint8Array(data);
-        let printable = 0;
-        for (let i = 0; i < Math.min(512, bytes.length); i++) {
-          const b = bytes[i];
-          if (b === 9 || b === 10 || b === 13 || (b >= 32 && b <= 126)) printable++;
-        }
-        const ratio = printable / Math.min(512, bytes.length || 1);
-
-        if (ratio > 0.6) {
-          // Treat as text
-          const text = new TextDecoder().decode(bytes);
-          try {
-            return { parsed: JSON.parse(text), isJson: true, raw: text };
-          } catch {
-            return { parsed: text, isJson: false, raw: text };
-          }
-        }
-
-        // Otherwise treat as binary audio/data: create blob URL for download
-        const size = bytes.byteLength;
-        const blob = new Blob([bytes], { type: 'application/octet-stream' });
-        const url = URL.createObjectURL(blob);
-        return { parsed: { binary: true }, isJson: false, raw: '', isBinary: true, url, size };
-      }
-
-      // MessageEvent sometimes wraps parsed objects already
-      if (typeof data === 'object') {
-        return { parsed: data, isJson: true, raw: JSON.stringify(data) };
-      }
-
-      // Fallback to string coercion
-      const fallback = String(data);
-      return { parsed: fallback, isJson: false, raw: fallback };
-    } catch {
-      return { parsed: `<unreadable binary>`, isJson: false, raw: '' };
-    }
-  };
-
-  // Cleanup WebSocket on unmount
-  useEffect(() => {
-    return () => {
-      disconnectWebSockets();
-      stopPollingCall();
-    };
-  }, []);
+  const parsedTarget = targetNumber ? parsePhoneNumber(targetNumber, defaultCountry) : null;
 
   return (
     <div className="space-y-6">
@@ -611,7 +360,7 @@ export function VapiCallMonitor() {
                       {assistants.map((assistant) => (
                         <SelectItem key={assistant.id} value={assistant.id}>
                           <div className="flex flex-col">
-                            <span className="font-medium">{assistant.name}</span>
+                            <span className="font-medium">{assistant.name || 'Unnamed assistant'}</span>
                             <span className="text-xs text-gray-500">ID: {assistant.id}</span>
                           </div>
                         </SelectItem>
@@ -632,7 +381,7 @@ export function VapiCallMonitor() {
                     <SelectContent>
                       {phoneNumbers.map((phone) => (
                         <SelectItem key={phone.id} value={phone.id}>
-                          {phone.name} ({formatPhoneNumber(phone.number)})
+                          {phone.name || phone.id} ({phone.number ? formatPhoneNumber(phone.number) : 'no number'})
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -641,15 +390,30 @@ export function VapiCallMonitor() {
 
                 <div>
                   <Label htmlFor="target-number">To Phone Number</Label>
-                  <Input
-                    id="target-number"
-                    placeholder="+1234567890 (E.164 format)"
-                    value={targetNumber}
-                    onChange={(e) => setTargetNumber(e.target.value)}
-                  />
-                  <p className="text-xs text-gray-500 mt-1">
-                    Enter in E.164 format (+1234567890) or US format (234-567-8900)
-                  </p>
+                  <div className="flex gap-2">
+                    <CountrySelect value={defaultCountry} onChange={setDefaultCountry} className="w-48 shrink-0" />
+                    <Input
+                      id="target-number"
+                      placeholder="+1234567890 or a national number"
+                      value={targetNumber}
+                      onChange={(e) => setTargetNumber(e.target.value)}
+                      aria-invalid={!!targetNumber && !parsedTarget?.ok}
+                    />
+                  </div>
+                  {targetNumber && parsedTarget ? (
+                    parsedTarget.ok ? (
+                      <p className="text-xs text-green-700 mt-1">
+                        Will dial {parsedTarget.phoneNumber.e164}
+                        {parsedTarget.phoneNumber.country && ` (${formatNational(parsedTarget.phoneNumber)}, ${parsedTarget.phoneNumber.country.name})`}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-red-600 mt-1">{parsedTarget.error}</p>
+                    )
+                  ) : (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Enter in international format (+44 20 7946 0958) or national format for the selected country
+                    </p>
+                  )}
                 </div>
 
                 <div className="space-y-3">
@@ -765,9 +529,9 @@ export function VapiCallMonitor() {
                 {phoneNumbers.map((phone) => (
                   <div key={phone.id} className="flex items-center justify-between p-2 border rounded">
                     <div>
-                      <p className="font-medium">{phone.name}</p>
+                      <p className="font-medium">{phone.name || phone.id}</p>
                       <p className="text-sm text-muted-foreground">
-                        {formatPhoneNumber(phone.number)}
+                        {phone.number ? formatPhoneNumber(phone.number) : 'No number'}
                       </p>
                     </div>
                     <Badge variant={phone.status === "active" ? "default" : "secondary"}>
@@ -783,10 +547,17 @@ export function VapiCallMonitor() {
         {/* Assistants List */}
         <Card>
           <CardHeader>
-            <CardTitle>Available Assistants</CardTitle>
-            <CardDescription>
-              Your configured VAPI assistants
-            </CardDescription>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Available Assistants</CardTitle>
+                <CardDescription>
+                  Your configured VAPI assistants
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => setEditingAssistant('new')}>
+                New Assistant
+              </Button>
+            </div>
           </CardHeader>
           <CardContent>
             {assistants.length === 0 ? (
@@ -796,7 +567,7 @@ export function VapiCallMonitor() {
                 {assistants.map((assistant) => (
                   <div key={assistant.id} className="flex items-center justify-between p-2 border rounded">
                     <div className="flex-1">
-                      <p className="font-medium">{assistant.name}</p>
+                      <p className="font-medium">{assistant.name || 'Unnamed assistant'}</p>
                       <p className="text-xs text-muted-foreground font-mono">
                         ID: {assistant.id}
                       </p>
@@ -812,7 +583,17 @@ export function VapiCallMonitor() {
                       )}
                     </div>
                     <div className="text-right">
-                      <Badge variant="default">Assistant</Badge>
+                      <div className="flex items-center justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setEditingAssistant(assistant)}
+                          className="h-6 px-2 text-xs"
+                        >
+                          Edit
+                        </Button>
+                        <Badge variant="default">Assistant</Badge>
+                      </div>
                       {assistant.firstMessage && (
                         <p className="text-xs text-muted-foreground mt-1 max-w-[150px] truncate">
                           "{assistant.firstMessage}"
@@ -825,6 +606,23 @@ export function VapiCallMonitor() {
             )}
           </CardContent>
         </Card>
+
+        {/* Assistant Editor (create / edit / delete) */}
+        {editingAssistant && (
+          <AssistantEditor
+            key={editingAssistant === 'new' ? 'new' : editingAssistant.id}
+            assistant={editingAssistant === 'new' ? null : editingAssistant}
+            onSaved={() => {
+              setEditingAssistant(null);
+              loadAssistants();
+            }}
+            onDeleted={() => {
+              setEditingAssistant(null);
+              loadAssistants();
+            }}
+            onCancel={() => setEditingAssistant(null)}
+          />
+        )}
       </div>
 
       {/* API Response and WebSocket Section */}
@@ -864,177 +662,30 @@ export function VapiCallMonitor() {
           </Card>
         )}
 
-        {/* Call Status */}
-        {currentCall && (
-          <Card>
-            <CardHeader>
-              <CardTitle>Call Status</CardTitle>
-              <CardDescription>
-                Real-time call information and monitor URLs
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-3">
-                <div className="grid grid-cols-2 gap-4">
-                  <div>
-                    <span className="font-medium text-sm text-gray-600">Call ID:</span>
-                    <p className="font-mono text-sm break-all">{currentCall.id}</p>
-                  </div>
-                  <div>
-                    <span className="font-medium text-sm text-gray-600">Status:</span>
-                    <div className="mt-1">
-                      <Badge variant={
-                        currentCall.status === 'queued' ? 'secondary' :
-                        currentCall.status === 'ringing' ? 'default' :
-                        currentCall.status === 'in-progress' ? 'default' :
-                        currentCall.status === 'ended' ? 'outline' :
-                        'secondary'
-                      }>{currentCall.status}</Badge>
-                    </div>
-                  </div>
-                </div>
-
-                {currentCall.customer && (
-                  <div>
-                    <span className="font-medium text-sm text-gray-600">Customer:</span>
-                    <p className="text-sm">
-                      {currentCall.customer.name || 'Unknown'} - {formatPhoneNumber(currentCall.customer.number)}
-                    </p>
-                  </div>
-                )}
-
-                {(currentCall.assistantId || currentCall.phoneNumberId) && (
-                  <div className="grid grid-cols-2 gap-4">
-                    {currentCall.assistantId && (
-                      <div>
-                        <span className="font-medium text-sm text-gray-600">Assistant ID:</span>
-                        <p className="font-mono text-xs break-all">{currentCall.assistantId}</p>
-                      </div>
-                    )}
-                    {currentCall.phoneNumberId && (
-                      <div>
-                        <span className="font-medium text-sm text-gray-600">Phone Number ID:</span>
-                        <p className="font-mono text-xs break-all">{currentCall.phoneNumberId}</p>
-                      </div>
-                    )}
-                  </div>
-                )}
-
-                {currentCall.monitor && (
-                  <div className="border-t pt-3">
-                    <span className="font-medium text-sm text-gray-600">Monitor URLs:</span>
-                    <div className="mt-2 space-y-2">
-                      {currentCall.monitor.listenUrl && (
-                        <div>
-                          <Label className="text-xs text-gray-500">Listen WebSocket:</Label>
-                          <p className="font-mono text-xs break-all bg-gray-50 p-2 rounded">
-                            {currentCall.monitor.listenUrl}
-                          </p>
-                        </div>
-                      )}
-                      {currentCall.monitor.controlUrl && (
-                        <div>
-                          <Label className="text-xs text-gray-500">Control WebSocket:</Label>
-                          <p className="font-mono text-xs break-all bg-gray-50 p-2 rounded">
-                            {currentCall.monitor.controlUrl}
-                          </p>
-                        </div>
-                      )}
-                    </div>
-                  </div>
-                )}
-
-                {(currentCall.cost !== undefined || currentCall.endedReason || currentCall.createdAt) && (
-                  <div className="border-t pt-3 grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
-                    {currentCall.cost !== undefined && (
-                      <div>
-                        <span className="font-medium text-gray-600">Cost:</span>
-                        <p>${currentCall.cost.toFixed(4)}</p>
-                      </div>
-                    )}
-                    {currentCall.endedReason && (
-                      <div>
-                        <span className="font-medium text-gray-600">End Reason:</span>
-                        <p>{currentCall.endedReason}</p>
-                      </div>
-                    )}
-                    {currentCall.createdAt && (
-                      <div>
-                        <span className="font-medium text-gray-600">Created:</span>
-                        <p>{new Date(currentCall.createdAt).toLocaleString()}</p>
-                      </div>
-                    )}
-                  </div>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* WebSocket Messages */}
-          <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              WebSocket Monitor
-              <div className="flex gap-2">
-                <Badge variant={wsConnection.connected ? 'default' : 'secondary'}>
-                  Listen: {wsConnection.connected ? 'Connected' : 'Disconnected'}
-                </Badge>
-              </div>
-            </CardTitle>
-            <CardDescription>
-              Real-time call events from both listen and control WebSockets
-            </CardDescription>
-            {!wsConnection.connected && wsMessages.some(msg => msg.type === 'error') && (
-               <div className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
-                 <h4 className="text-sm font-medium text-yellow-800 mb-2">🔧 WebSocket Connection Troubleshooting</h4>
-                 <div className="text-xs text-yellow-700 space-y-1">
-                   <p>• <strong>Monitor Plan Required:</strong> The assistant needs monitoring enabled to generate WebSocket URLs</p>
-                   <p>• <strong>Quick Fix:</strong> Click "Enable Monitoring" button above to configure the assistant</p>
-                   <p>• <strong>CORS/Security / Network:</strong> Browser may be blocked by network/firewall or TLS issues when connecting to remote WebSocket hosts</p>
-                   <p>• <strong>Normal Behavior:</strong> Calls will still work without WebSocket monitoring</p>
-                 </div>
-               </div>
-             )}
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2 max-h-[400px] overflow-y-auto">
-              {wsMessages.length === 0 ? (
-                <p className="text-muted-foreground">No WebSocket messages yet</p>
-              ) : (
-                wsMessages.map((msg, index) => (
-                  <div key={index} className="p-2 border rounded text-sm">
-                    <div className="flex justify-between items-center mb-1">
-                      <div className="flex gap-2">
-                        <Badge variant="outline" className="text-xs">{msg.type}</Badge>
-                        <Badge variant={msg.source === 'listen' ? 'default' : 'secondary'} className="text-xs">{msg.source}</Badge>
-                      </div>
-                      <span className="text-xs text-muted-foreground">
-                        {new Date(msg.timestamp).toLocaleTimeString()}
-                      </span>
-                    </div>
-                    {typeof msg.data === 'object' && msg.data?.binary ? (
-                      <div className="space-y-2">
-                        <div className="text-xs text-gray-700">Binary payload — {msg.data.size ?? 'unknown'} bytes</div>
-                        {msg.data.url ? (
-                          <a className="text-xs text-blue-600" href={msg.data.url} download={`vapi-audio-${index}.pcm`}>Download .pcm</a>
-                        ) : (
-                          <pre className="text-xs overflow-x-auto">{JSON.stringify(msg.data, null, 2)}</pre>
-                        )}
-                      </div>
-                    ) : (
-                      <pre className="text-xs overflow-x-auto">{typeof msg.data === 'string' ? msg.data : JSON.stringify(msg.data, null, 2)}</pre>
-                    )}
-                   </div>
-                 ))
-               )}
-            </div>
-          </CardContent>
-        </Card>
+        {/* Monitored calls: tabs, live call summary and a monitor panel per call */}
+        <CallWorkspace
+          calls={monitoredCalls}
+          activeCallId={activeCallId}
+          onSelect={setActiveCallId}
+          onClose={stopMonitoringCall}
+        />
         {/* Server webhook monitor (shows events posted to server URLs by Vapi) */}
-        <ServerWebhookMonitor />
+        <ServerWebhookMonitor onOpenCall={openCall} />
       </div>
     </div>
+
+      {/* Call Campaign (CSV import dialled through makeCall) */}
+      <CallCampaignPanel
+        assistants={assistants}
+        phoneNumbers={phoneNumbers}
+        assistantId={assistantId}
+        phoneNumberId={selectedPhoneNumber}
+        defaultCountry={defaultCountry}
+        metadataFields={customMetadata}
+      />
+
+      {/* Call History (GET /call with filters and pagination) */}
+      <CallHistory assistants={assistants} phoneNumbers={phoneNumbers} onMonitor={monitorCall} />
     </div>
   );
 }
\ No newline at end of file
@@ -42,8 +42,7 @@ export function VapiDiagnostics() {
 
     // Test 2: Credentials Check
     try {
-      const credentials = await vapiService.listCredentials()
-      const sipCredentials = credentials.filter((c: any) => c.provider === 'byo-sip-trunk')
+      const sipCredentials = await vapiService.getSipCredentials()
       
       if (sipCredentials.length === 0) {
         diagnostics.push({
@@ -70,7 +69,7 @@ export function VapiDiagnostics() {
     // Test 3: Phone Numbers Check
     try {
       const phoneNumbers = await vapiService.getPhoneNumbers()
-      const byoNumbers = phoneNumbers.filter((p: any) => p.provider === 'byo-phone-number')
+      const byoNumbers = phoneNumbers.filter((p) => p.provider === 'byo-phone-number')
       
       if (byoNumbers.length === 0) {
         diagnostics.push({
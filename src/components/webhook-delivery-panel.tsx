@@ -0,0 +1,162 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import type { DeliveryState, DeliveryStats, WebhookDelivery } from '@/lib/vapi-webhook-forwarding'
+
+const DELIVERIES_ROUTE = '/api/vapi-webhook/deliveries'
+const POLL_INTERVAL_MS = 5000
+
+const STATE_BADGES: Record<DeliveryState, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  pending: { label: 'Sending', variant: 'secondary' },
+  retrying: { label: 'Retrying', variant: 'outline' },
+  delivered: { label: 'Delivered', variant: 'default' },
+  dead: { label: 'Dead letter', variant: 'destructive' },
+}
+
+function DeliveryRow({ delivery, children }: { delivery: WebhookDelivery; children?: React.ReactNode }) {
+  const badge = STATE_BADGES[delivery.state]
+  const last = delivery.attempts[delivery.attempts.length - 1]
+  return (
+    <details className="text-xs border rounded p-1">
+      <summary className="cursor-pointer flex flex-wrap items-center gap-2">
+        <Badge variant={badge.variant} className="text-xs">{badge.label}</Badge>
+        <span className="font-medium">{delivery.destination}</span>
+        <span className="font-mono">{delivery.eventId || '(not stored)'}</span>
+        <span>{delivery.eventType || ''}</span>
+        <span className="text-gray-500">
+          {delivery.attempts.length} attempt{delivery.attempts.length === 1 ? '' : 's'}
+          {last && ` · last ${last.status ?? 'failed'}`}
+          {delivery.nextAttemptAt && ` · next at ${new Date(delivery.nextAttemptAt).toLocaleTimeString()}`}
+        </span>
+        {children}
+      </summary>
+      <div className="mt-1 space-y-1">
+        <div className="text-gray-500 break-all">{delivery.url}</div>
+        {delivery.attempts.map((attempt, i) => (
+          <div key={i} className="font-mono">
+            {new Date(attempt.at).toLocaleTimeString()} · {attempt.status ?? 'no response'} · {attempt.durationMs}ms
+            {attempt.error && <span className="text-red-600"> · {attempt.error}</span>}
+          </div>
+        ))}
+      </div>
+    </details>
+  )
+}
+
+/** Status of webhook forwarding: per-destination counts, recent deliveries and the dead-letter list. */
+export function WebhookDeliveryPanel() {
+  const [destinations, setDestinations] = useState<DeliveryStats[]>([])
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDeliveries = async () => {
+    try {
+      const res = await fetch(DELIVERIES_ROUTE)
+      if (!res.ok) return
+      const body = await res.json()
+      setDestinations(body.destinations || [])
+      setDeliveries(body.deliveries || [])
+    } catch (err) {
+      console.error('Failed to load webhook deliveries', err)
+    }
+  }
+
+  useEffect(() => {
+    loadDeliveries()
+    const interval = setInterval(loadDeliveries, POLL_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [])
+
+  const act = async (id: string, action: 'retry' | 'dismiss') => {
+    setBusyId(id)
+    setError(null)
+    try {
+      const res = await fetch(DELIVERIES_ROUTE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, action }),
+      })
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}))
+        setError(body.error || `Request failed with ${res.status}`)
+      }
+      await loadDeliveries()
+    } catch (err) {
+      console.error(`Failed to ${action} webhook delivery`, err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const deadLetters = deliveries.filter(d => d.state === 'dead')
+  const recent = deliveries.filter(d => d.state !== 'dead').slice(0, 50)
+
+  return (
+    <div className="space-y-3 p-3 border rounded">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm">Forwarding</h4>
+        <Button size="sm" variant="ghost" onClick={loadDeliveries}>Refresh</Button>
+      </div>
+
+      {destinations.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          No destinations configured. Set VAPI_WEBHOOK_FORWARD_DESTINATIONS to forward events to other services.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {destinations.map(d => (
+            <div key={d.destination} className="p-2 border rounded text-xs space-y-1">
+              <div className="font-medium">{d.destination}</div>
+              <div className="text-gray-500 break-all">{d.url}</div>
+              <div className="text-gray-500">{d.eventTypes.length > 0 ? d.eventTypes.join(', ') : 'all event types'}</div>
+              <div className="flex flex-wrap gap-1">
+                <Badge variant="default" className="text-xs">{d.delivered} delivered</Badge>
+                <Badge variant="secondary" className="text-xs">{d.pending} in flight</Badge>
+                <Badge variant={d.dead > 0 ? 'destructive' : 'outline'} className="text-xs">{d.dead} dead</Badge>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-700">{error}</div>
+      )}
+
+      {deadLetters.length > 0 && (
+        <div className="space-y-1">
+          <h5 className="text-xs font-medium">Dead letters ({deadLetters.length})</h5>
+          <div className="space-y-1 max-h-[200px] overflow-y-auto">
+            {deadLetters.map(delivery => (
+              <DeliveryRow key={delivery.id} delivery={delivery}>
+                <span className="ml-auto flex gap-1">
+                  <Button size="sm" variant="outline" className="h-6 text-xs" disabled={busyId === delivery.id} onClick={(e) => { e.preventDefault(); act(delivery.id, 'retry') }}>
+                    Retry
+                  </Button>
+                  <Button size="sm" variant="ghost" className="h-6 text-xs" disabled={busyId === delivery.id} onClick={(e) => { e.preventDefault(); act(delivery.id, 'dismiss') }}>
+                    Dismiss
+                  </Button>
+                </span>
+              </DeliveryRow>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {recent.length > 0 && (
+        <div className="space-y-1">
+          <h5 className="text-xs font-medium">Recent deliveries</h5>
+          <div className="space-y-1 max-h-[200px] overflow-y-auto">
+            {recent.map(delivery => (
+              <DeliveryRow key={delivery.id} delivery={delivery} />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
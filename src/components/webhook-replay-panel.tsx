@@ -0,0 +1,221 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { getWebhookBody } from '@/lib/vapi-webhook-query'
+import type { WebhookEvent } from '@/lib/vapi-webhook-storage'
+import type { WebhookReplay } from '@/lib/vapi-webhook-replay'
+
+const REPLAY_ROUTE = '/api/vapi-webhook/replay'
+const LOCAL = 'local'
+
+interface WebhookReplayPanelProps {
+  /** Events picked in the monitor, in the order they will be replayed. */
+  selected: WebhookEvent[]
+  onClearSelection: () => void
+}
+
+function isJson(text: string) {
+  try {
+    JSON.parse(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Replays the selected webhook events to this app's handlers or a configured target, and lists past replays. */
+export function WebhookReplayPanel({ selected, onClearSelection }: WebhookReplayPanelProps) {
+  const [targets, setTargets] = useState<string[]>([])
+  const [canResign, setCanResign] = useState(false)
+  const [history, setHistory] = useState<WebhookReplay[]>([])
+  const [target, setTarget] = useState(LOCAL)
+  const [resign, setResign] = useState(false)
+  // Edited bodies by event ID; events without an entry are sent as stored
+  const [edits, setEdits] = useState<Record<string, string>>({})
+  const [replaying, setReplaying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadReplays = async () => {
+    try {
+      const res = await fetch(REPLAY_ROUTE)
+      if (!res.ok) return
+      const body = await res.json()
+      setTargets(body.targets || [])
+      setCanResign(Boolean(body.canResign))
+      setHistory(body.replays || [])
+    } catch (err) {
+      console.error('Failed to load webhook replays', err)
+    }
+  }
+
+  useEffect(() => {
+    loadReplays()
+  }, [])
+
+  // Drop edits of events that are no longer selected
+  useEffect(() => {
+    setEdits(prev => {
+      const kept = Object.entries(prev).filter(([id]) => selected.some(e => e.id === id))
+      return kept.length === Object.keys(prev).length ? prev : Object.fromEntries(kept)
+    })
+  }, [selected])
+
+  const replay = async () => {
+    setReplaying(true)
+    setError(null)
+    try {
+      const res = await fetch(REPLAY_ROUTE, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          eventIds: selected.map(e => e.id),
+          target,
+          resign: resign && target !== LOCAL,
+          bodies: Object.keys(edits).length > 0 ? edits : undefined,
+        }),
+      })
+      const body = await res.json()
+      if (!res.ok) {
+        setError(body.error + (body.missing ? ` (${body.missing.join(', ')})` : ''))
+        return
+      }
+      await loadReplays()
+    } catch (err) {
+      console.error('Failed to replay webhook events', err)
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setReplaying(false)
+    }
+  }
+
+  return (
+    <div className="space-y-3 p-3 border rounded">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm">Replay Events</h4>
+        {selected.length > 0 && (
+          <Button size="sm" variant="ghost" onClick={onClearSelection}>Clear selection</Button>
+        )}
+      </div>
+
+      {selected.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Tick events above to replay them.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <Label>Target</Label>
+              <Select value={target} onValueChange={setTarget}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={LOCAL}>This app&apos;s webhook handlers</SelectItem>
+                  {targets.map(url => (
+                    <SelectItem key={url} value={url}>{url}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {targets.length === 0 && (
+                <p className="text-xs text-gray-500 mt-1">Add URLs to VAPI_WEBHOOK_REPLAY_TARGETS to replay to other services.</p>
+              )}
+            </div>
+            <label className="flex items-center space-x-2 text-xs md:mt-6">
+              <input
+                type="checkbox"
+                checked={resign && target !== LOCAL}
+                disabled={!canResign || target === LOCAL}
+                onChange={(e) => setResign(e.target.checked)}
+              />
+              <span>
+                Re-sign with the current webhook secret
+                {!canResign && ' (no secret configured)'}
+              </span>
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            {selected.map(evt => {
+              const original = getWebhookBody(evt)
+              const edited = edits[evt.id]
+              return (
+                <details key={evt.id} className="text-xs">
+                  <summary className="cursor-pointer">
+                    {evt.id} · {evt.eventType || 'unknown type'}
+                    {edited !== undefined && <Badge variant="outline" className="ml-2 text-xs">edited</Badge>}
+                  </summary>
+                  <Textarea
+                    className="mt-2 font-mono text-xs"
+                    rows={8}
+                    value={edited ?? original}
+                    onChange={(e) => setEdits(prev => ({ ...prev, [evt.id]: e.target.value }))}
+                  />
+                  <div className="flex items-center gap-2 mt-1">
+                    {edited !== undefined && isJson(original) && !isJson(edited) && (
+                      <span className="text-red-600">Not valid JSON</span>
+                    )}
+                    {edited !== undefined && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 text-xs"
+                        onClick={() => setEdits(prev => {
+                          const next = { ...prev }
+                          delete next[evt.id]
+                          return next
+                        })}
+                      >
+                        Undo edits
+                      </Button>
+                    )}
+                  </div>
+                </details>
+              )
+            })}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {target === LOCAL
+              ? 'Local replays run the handlers directly and are not stored as new events. Once webhook secrets are set, only verified, unedited events are run.'
+              : resign
+                ? 'Requests are signed with x-vapi-signature / x-vapi-timestamp.'
+                : 'Unedited events are sent exactly as received, with their original signature headers.'}
+          </p>
+
+          <Button size="sm" onClick={replay} disabled={replaying}>
+            {replaying ? 'Replaying...' : `Replay ${selected.length} event${selected.length === 1 ? '' : 's'}`}
+          </Button>
+        </>
+      )}
+
+      {error && (
+        <div className="p-2 bg-red-50 border border-red-200 rounded-md text-xs text-red-700">{error}</div>
+      )}
+
+      {history.length > 0 && (
+        <div className="space-y-1 max-h-[200px] overflow-y-auto">
+          {history.map(replay => (
+            <details key={replay.id} className="text-xs border rounded p-1">
+              <summary className="cursor-pointer flex flex-wrap items-center gap-2">
+                <Badge variant={replay.ok ? 'default' : 'destructive'} className="text-xs">
+                  {replay.status ?? 'failed'}
+                </Badge>
+                <span className="font-mono">{replay.eventId}</span>
+                <span>{replay.eventType || ''}</span>
+                <span className="text-gray-500">→ {replay.target === LOCAL ? 'local handlers' : replay.target}</span>
+                {replay.edited && <Badge variant="outline" className="text-xs">edited</Badge>}
+                {replay.resigned && <Badge variant="outline" className="text-xs">re-signed</Badge>}
+                <span className="text-gray-500">{new Date(replay.startedAt).toLocaleTimeString()} · {replay.durationMs}ms</span>
+              </summary>
+              <pre className="mt-1 overflow-x-auto">{replay.error || replay.response || '(empty response)'}</pre>
+            </details>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+'use client'
+
+import { useCallback, useSyncExternalStore } from 'react'
+import { COUNTRIES, DEFAULT_COUNTRY, type CountryCode } from '@/lib/phone-number'
+
+const STORAGE_KEY = 'vapi-default-country'
+const listeners = new Set<() => void>()
+
+function readCountry(): CountryCode {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    if (stored && COUNTRIES.some(country => country.code === stored)) return stored as CountryCode
+  } catch {
+    // localStorage can be unavailable (private mode, blocked storage)
+  }
+  return DEFAULT_COUNTRY
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  window.addEventListener('storage', listener)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener('storage', listener)
+  }
+}
+
+/**
+ * Default country for numbers typed in national format. Shared by every form on the page and
+ * remembered in localStorage.
+ */
+export function useDefaultCountry(): [CountryCode, (country: CountryCode) => void] {
+  const country = useSyncExternalStore(subscribe, readCountry, () => DEFAULT_COUNTRY)
+
+  const setCountry = useCallback((next: CountryCode) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next)
+    } catch {
+      // Still update this page even if the choice can't be remembered
+    }
+    listeners.forEach(listener => listener())
+  }, [])
+
+  return [country, setCountry]
+}
@@ -0,0 +1,17 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+/**
+ * Returns a ref that always holds the latest `value`. Effects, intervals and stream callbacks that
+ * outlive the render they were set up in read it instead of a stale closure.
+ */
+export function useLatest<T>(value: T) {
+  const ref = useRef(value)
+
+  useEffect(() => {
+    ref.current = value
+  })
+
+  return ref
+}
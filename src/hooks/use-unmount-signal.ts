@@ -0,0 +1,25 @@
+'use client'
+
+import { useCallback, useEffect, useRef } from 'react'
+
+/**
+ * Returns a getter for an AbortSignal that is aborted when the component unmounts.
+ * Pass it to `vapiService` calls so in-flight requests don't outlive the component.
+ */
+export function useUnmountSignal() {
+  const controllerRef = useRef<AbortController | null>(null)
+
+  useEffect(() => {
+    // Re-create on (re)mount so StrictMode's mount/unmount/mount cycle gets a live signal
+    if (!controllerRef.current || controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController()
+    }
+    const controller = controllerRef.current
+    return () => controller.abort()
+  }, [])
+
+  return useCallback(() => {
+    if (!controllerRef.current) controllerRef.current = new AbortController()
+    return controllerRef.current.signal
+  }, [])
+}
@@ -0,0 +1,25 @@
+'use client'
+
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react'
+import { WsConnectionManager, type WsConnectionOptions } from '@/lib/ws-connection-manager'
+
+/**
+ * Owns a `WsConnectionManager` for the lifetime of the component and exposes its snapshot.
+ * Handlers may change between renders; the manager always calls the latest ones.
+ */
+export function useWebSocketConnection(options: WsConnectionOptions = {}) {
+  const [manager] = useState(() => new WsConnectionManager(options))
+  const { onMessage, onStateChange, onLog } = options
+
+  useEffect(() => {
+    manager.setHandlers({ onMessage, onStateChange, onLog })
+  })
+
+  useEffect(() => () => manager.dispose(), [manager])
+
+  const snapshot = useSyncExternalStore(manager.subscribe, manager.getSnapshot, manager.getSnapshot)
+  const connect = useCallback((url: string) => manager.connect(url), [manager])
+  const disconnect = useCallback(() => manager.disconnect(), [manager])
+
+  return { ...snapshot, connect, disconnect }
+}
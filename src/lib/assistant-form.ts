@@ -0,0 +1,139 @@
+// Form model for the assistant editor: converts between VAPI assistants and flat form drafts,
+// and validates drafts before they are sent to POST/PATCH /assistant.
+
+import type { Assistant, CreateAssistantInput } from './vapi-types';
+
+export const MODEL_PROVIDERS = ['openai', 'anthropic', 'google', 'groq', 'together-ai', 'deepinfra', 'custom-llm'];
+export const VOICE_PROVIDERS = ['11labs', 'openai', 'azure', 'playht', 'deepgram', 'cartesia', 'rime-ai'];
+export const TRANSCRIBER_PROVIDERS = ['deepgram', 'assembly-ai', 'azure', 'gladia', 'talkscriber'];
+
+export interface AssistantDraft {
+  name: string;
+  modelProvider: string;
+  model: string;
+  systemPrompt: string;
+  voiceProvider: string;
+  voiceId: string;
+  firstMessage: string;
+  transcriberProvider: string;
+  transcriberModel: string;
+  transcriberLanguage: string;
+  serverUrl: string;
+}
+
+export type AssistantDraftErrors = Partial<Record<keyof AssistantDraft, string>>;
+
+export const EMPTY_ASSISTANT_DRAFT: AssistantDraft = {
+  name: '',
+  modelProvider: 'openai',
+  model: 'gpt-4o-mini',
+  systemPrompt: '',
+  voiceProvider: '11labs',
+  voiceId: '',
+  firstMessage: '',
+  transcriberProvider: 'deepgram',
+  transcriberModel: 'nova-2',
+  transcriberLanguage: 'en',
+  serverUrl: '',
+};
+
+export function assistantToDraft(assistant: Assistant): AssistantDraft {
+  const systemMessage = assistant.model?.messages?.find((message) => message.role === 'system');
+  return {
+    name: assistant.name || '',
+    modelProvider: assistant.model?.provider || '',
+    model: assistant.model?.model || '',
+    systemPrompt: systemMessage?.content || '',
+    voiceProvider: assistant.voice?.provider || '',
+    voiceId: assistant.voice?.voiceId || '',
+    firstMessage: assistant.firstMessage || '',
+    transcriberProvider: assistant.transcriber?.provider || '',
+    transcriberModel: assistant.transcriber?.model || '',
+    transcriberLanguage: assistant.transcriber?.language || '',
+    serverUrl: assistant.serverUrl || '',
+  };
+}
+
+// Cleared optional fields are sent as `null` when editing: an absent field would leave the old value in place
+function cleared(existing?: Assistant) {
+  return existing ? null : undefined;
+}
+
+// Settings of another provider don't carry over (a voice ID or model option means nothing to the new one)
+function sameProvider<T extends { provider?: string }>(settings: T | undefined, provider: string) {
+  return settings?.provider === provider ? settings : undefined;
+}
+
+/**
+ * Build the request body for a draft. When editing, nested objects from `existing` are merged so
+ * settings the editor doesn't expose (tools, temperature, voice tuning...) are kept, as long as the
+ * provider is unchanged; cleared optional fields are sent as `null`.
+ */
+
+export function draftToAssistantInput(draft: AssistantDraft, existing?: Assistant): CreateAssistantInput {
+  const otherMessages = (existing?.model?.messages || []).filter((message) => message.role !== 'system');
+  const messages = draft.systemPrompt.trim()
+    ? [{ role: 'system', content: draft.systemPrompt.trim() }, ...otherMessages]
+    : otherMessages;
+
+  const input: CreateAssistantInput = {
+    name: draft.name.trim(),
+    model: {
+      ...sameProvider(existing?.model, draft.modelProvider),
+      provider: draft.modelProvider,
+      model: draft.model.trim(),
+      messages,
+    },
+    voice: {
+      ...sameProvider(existing?.voice, draft.voiceProvider),
+      provider: draft.voiceProvider,
+      voiceId: draft.voiceId.trim(),
+    },
+    firstMessage: draft.firstMessage.trim() || cleared(existing),
+    serverUrl: draft.serverUrl.trim() || cleared(existing),
+  };
+
+  if (draft.transcriberProvider) {
+    input.transcriber = {
+      ...sameProvider(existing?.transcriber, draft.transcriberProvider),
+      provider: draft.transcriberProvider,
+      model: draft.transcriberModel.trim() || undefined,
+      language: draft.transcriberLanguage.trim() || undefined,
+    };
+  }
+
+  return input;
+}
+
+export function validateAssistantDraft(draft: AssistantDraft): AssistantDraftErrors {
+  const errors: AssistantDraftErrors = {};
+
+  if (!draft.name.trim()) {
+    errors.name = 'Name is required';
+  } else if (draft.name.trim().length > 40) {
+    // VAPI rejects assistant names longer than 40 characters
+    errors.name = 'Name must be 40 characters or fewer';
+  }
+
+  if (!draft.modelProvider) errors.modelProvider = 'Model provider is required';
+  if (!draft.model.trim()) errors.model = 'Model is required';
+  if (!draft.voiceProvider) errors.voiceProvider = 'Voice provider is required';
+  if (!draft.voiceId.trim()) errors.voiceId = 'Voice ID is required';
+
+  if (draft.transcriberLanguage.trim() && !/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/.test(draft.transcriberLanguage.trim())) {
+    errors.transcriberLanguage = 'Use a language code such as "en" or "en-US"';
+  }
+
+  if (draft.serverUrl.trim()) {
+    try {
+      const url = new URL(draft.serverUrl.trim());
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        errors.serverUrl = 'Server URL must use http or https';
+      }
+    } catch {
+      errors.serverUrl = 'Server URL must be a valid URL';
+    }
+  }
+
+  return errors;
+}
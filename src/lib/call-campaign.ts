@@ -0,0 +1,316 @@
+// Outbound call campaigns: turns an imported contact list into calls placed through
+// `vapiService.makeCall`, with a concurrency limit, pacing between calls, and pause/resume/cancel.
+
+import type { CsvTable } from './csv';
+import { parsePhoneNumber, type CountryCode } from './phone-number';
+import { isAbortError } from './vapi-errors';
+import { vapiService } from './vapi-service';
+import type { Call, CallStatus } from './vapi-types';
+
+export type CampaignRowStatus = 'queued' | 'dialing' | 'ended' | 'failed' | 'cancelled';
+
+export type CampaignState = 'ready' | 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface CampaignColumnMapping {
+  /** CSV column holding the number to dial. */
+  number: string;
+  /** CSV column holding the customer name, if any. */
+  name?: string;
+  /** Metadata key -> CSV column. Keys without a column keep their form value. */
+  metadata: Record<string, string>;
+}
+
+export interface CampaignRow {
+  /** Position of the contact in the CSV (0 = first data row). */
+  index: number;
+  /** Number to dial, in E.164. */
+  number: string;
+  name?: string;
+  metadata: Record<string, any>;
+  status: CampaignRowStatus;
+  callId?: string;
+  callStatus?: CallStatus;
+  endedReason?: string;
+  error?: string;
+  startedAt?: number;
+  endedAt?: number;
+}
+
+export interface InvalidCampaignRow {
+  index: number;
+  error: string;
+}
+
+export interface CampaignOptions {
+  assistantId: string;
+  phoneNumberId: string;
+  /** Maximum number of calls in progress at the same time. */
+  concurrency: number;
+  /** Minimum time between starting two calls, in milliseconds. */
+  pacingMs: number;
+  /** How often in-progress calls are polled for their status, in milliseconds. */
+  pollIntervalMs?: number;
+}
+
+export interface CampaignSnapshot {
+  state: CampaignState;
+  rows: CampaignRow[];
+  counts: Record<CampaignRowStatus, number>;
+}
+
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+// Consecutive failed status polls after which a call is reported as failed
+const MAX_POLL_FAILURES = 5;
+
+/**
+ * Parse a metadata value typed into a form or CSV cell: JSON objects, arrays, booleans and
+ * numbers are decoded, everything else stays a string.
+ */
+export function coerceMetadataValue(value: string): any {
+  try {
+    if (value.startsWith('{') || value.startsWith('[') || value === 'true' || value === 'false' || !isNaN(Number(value))) {
+      return JSON.parse(value);
+    }
+  } catch {
+    // Not valid JSON after all; keep the raw string
+  }
+  return value;
+}
+
+/**
+ * Turn CSV rows into campaign rows. Rows with an invalid or duplicate number are returned in
+ * `invalid` and never dialled.
+ */
+export function buildCampaignRows(
+  table: CsvTable,
+  mapping: CampaignColumnMapping,
+  defaultCountry: CountryCode,
+  formMetadata: Record<string, any> = {}
+): { rows: CampaignRow[]; invalid: InvalidCampaignRow[] } {
+  const column = (header: string) => table.headers.indexOf(header);
+  const numberColumn = column(mapping.number);
+  if (numberColumn === -1) throw new Error(`CSV has no column "${mapping.number}"`);
+  const nameColumn = mapping.name ? column(mapping.name) : -1;
+
+  const rows: CampaignRow[] = [];
+  const invalid: InvalidCampaignRow[] = [];
+  const seen = new Map<string, number>();
+
+  table.rows.forEach((cells, index) => {
+    const parsed = parsePhoneNumber(cells[numberColumn], defaultCountry);
+    if (!parsed.ok) {
+      invalid.push({ index, error: cells[numberColumn] ? `${cells[numberColumn]}: ${parsed.error}` : 'No phone number' });
+      return;
+    }
+    const { e164 } = parsed.phoneNumber;
+    const duplicateOf = seen.get(e164);
+    if (duplicateOf !== undefined) {
+      invalid.push({ index, error: `${e164} is a duplicate of row ${duplicateOf + 1}` });
+      return;
+    }
+    seen.set(e164, index);
+
+    const metadata: Record<string, any> = { ...formMetadata };
+    for (const [key, header] of Object.entries(mapping.metadata)) {
+      const value = cells[column(header)];
+      if (value) metadata[key] = coerceMetadataValue(value);
+    }
+
+    rows.push({
+      index,
+      number: e164,
+      name: nameColumn !== -1 ? cells[nameColumn] || undefined : undefined,
+      metadata,
+      status: 'queued',
+    });
+  });
+
+  return { rows, invalid };
+}
+
+/**
+ * Runs a campaign in the browser. Subscribe with `subscribe()` (compatible with
+ * `useSyncExternalStore`) and call `dispose()` when the owner unmounts.
+ *
+ * Pausing and cancelling only stop new calls from being placed: calls already in progress keep
+ * running on VAPI and are still tracked until they end.
+ */
+export class CallCampaign {
+  private rows: CampaignRow[];
+  private state: CampaignState = 'ready';
+  private snapshot: CampaignSnapshot;
+  private listeners = new Set<() => void>();
+  private controller = new AbortController();
+  private lastStartedAt = 0;
+  // Calls are only placed once the assistant's monitor plan has been set
+  private monitoringEnabled = false;
+  private pumpTimer: ReturnType<typeof setTimeout> | null = null;
+  private pollTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  constructor(rows: CampaignRow[], private options: CampaignOptions) {
+    this.rows = rows;
+    this.snapshot = this.createSnapshot();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  start() {
+    if (this.state !== 'ready') return;
+    this.setState('running');
+    void this.enableMonitoring();
+  }
+
+  pause() {
+    if (this.state !== 'running') return;
+    this.clearPumpTimer();
+    this.setState('paused');
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.setState('running');
+    this.pump();
+  }
+
+  cancel() {
+    if (this.state === 'cancelled' || this.state === 'completed') return;
+    this.clearPumpTimer();
+    this.rows = this.rows.map((row) => (row.status === 'queued' ? { ...row, status: 'cancelled' } : row));
+    this.setState('cancelled');
+  }
+
+  /** Stop all timers and abort in-flight requests; the campaign can't be used afterwards. */
+  dispose() {
+    this.clearPumpTimer();
+    this.pollTimers.forEach((timer) => clearTimeout(timer));
+    this.pollTimers.clear();
+    this.controller.abort();
+    this.listeners.clear();
+  }
+
+  /** Enable monitoring on the assistant once, rather than have every `makeCall` PATCH it again. */
+  private async enableMonitoring() {
+    try {
+      await vapiService.enableAssistantMonitoring(this.options.assistantId, { signal: this.controller.signal });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      // Calls still work without monitoring; they just can't be listened to or controlled
+      console.warn(`Could not enable monitoring for assistant ${this.options.assistantId}:`, error);
+    }
+    this.monitoringEnabled = true;
+    this.pump();
+  }
+
+  private pump() {
+    this.pumpTimer = null;
+    if (this.state !== 'running' || !this.monitoringEnabled) return;
+
+    const active = this.rows.filter((row) => row.status === 'dialing').length;
+    const next = this.rows.find((row) => row.status === 'queued');
+    if (!next) {
+      if (active === 0) this.setState('completed');
+      return;
+    }
+    // pump() runs again whenever a call finishes
+    if (active >= this.options.concurrency) return;
+
+    const wait = this.lastStartedAt + this.options.pacingMs - Date.now();
+    if (wait > 0) {
+      this.pumpTimer = setTimeout(() => this.pump(), wait);
+      return;
+    }
+
+    this.lastStartedAt = Date.now();
+    void this.dial(next);
+    this.pump();
+  }
+
+  private async dial(row: CampaignRow) {
+    this.updateRow(row.index, { status: 'dialing', startedAt: Date.now() });
+    try {
+      const call = await vapiService.makeCall(
+        this.options.assistantId,
+        this.options.phoneNumberId,
+        row.number,
+        row.name,
+        row.metadata,
+        { signal: this.controller.signal, enableMonitoring: false }
+      );
+      this.updateRow(row.index, { callId: call.id, callStatus: call.status });
+      if (call.status === 'ended') {
+        this.finishRow(row.index, call);
+      } else {
+        this.schedulePoll(row.index, call.id, 0);
+      }
+    } catch (error) {
+      if (isAbortError(error)) return;
+      this.finishRow(row.index, null, error);
+    }
+  }
+
+  private schedulePoll(index: number, callId: string, failures: number) {
+    const timer = setTimeout(async () => {
+      this.pollTimers.delete(index);
+      try {
+        const call = await vapiService.getCall(callId, { signal: this.controller.signal });
+        if (call.status === 'ended') {
+          this.finishRow(index, call);
+        } else {
+          this.updateRow(index, { callStatus: call.status });
+          this.schedulePoll(index, callId, 0);
+        }
+      } catch (error) {
+        if (isAbortError(error)) return;
+        if (failures + 1 >= MAX_POLL_FAILURES) {
+          this.finishRow(index, null, new Error(`Lost track of call ${callId}: ${error instanceof Error ? error.message : error}`));
+        } else {
+          this.schedulePoll(index, callId, failures + 1);
+        }
+      }
+    }, this.options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+    this.pollTimers.set(index, timer);
+  }
+
+  private finishRow(index: number, call: Call | null, error?: unknown) {
+    if (call) {
+      this.updateRow(index, { status: 'ended', callStatus: call.status, endedReason: call.endedReason, endedAt: Date.now() });
+    } else {
+      this.updateRow(index, { status: 'failed', error: error instanceof Error ? error.message : String(error), endedAt: Date.now() });
+    }
+    this.pump();
+  }
+
+  private updateRow(index: number, changes: Partial<CampaignRow>) {
+    // Rows are replaced rather than mutated so React sees the change
+    this.rows = this.rows.map((row) => (row.index === index ? { ...row, ...changes } : row));
+    this.emit();
+  }
+
+  private setState(state: CampaignState) {
+    this.state = state;
+    this.emit();
+  }
+
+  private clearPumpTimer() {
+    if (this.pumpTimer) clearTimeout(this.pumpTimer);
+    this.pumpTimer = null;
+  }
+
+  private emit() {
+    this.snapshot = this.createSnapshot();
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private createSnapshot(): CampaignSnapshot {
+    const counts: Record<CampaignRowStatus, number> = { queued: 0, dialing: 0, ended: 0, failed: 0, cancelled: 0 };
+    this.rows.forEach((row) => counts[row.status]++);
+    return { state: this.state, rows: this.rows, counts };
+  }
+}
@@ -0,0 +1,144 @@
+// Per-call timeline: the webhook events, listen WebSocket messages, call polls and control commands
+// of one call merged into a single time-ordered list. Status changes, transcripts, tool calls and the
+// end-of-call report are marked as highlights.
+
+import { getToolCalls, type ServerMessage } from './vapi-webhook-dispatcher';
+import { getWebhookCallId, getWebhookMessage } from './vapi-webhook-query';
+import type { WebhookEvent } from './vapi-webhook-storage';
+
+/** A message in a call monitor panel's log. */
+export interface MonitorMessage {
+  type: string;
+  data: any;
+  timestamp: string;
+  /** Which part of the panel logged it. */
+  source?: 'listen' | 'poll' | 'control';
+}
+
+export type TimelineSource = 'webhook' | NonNullable<MonitorMessage['source']>;
+
+export type TimelineHighlight = 'status' | 'transcript' | 'tool-calls' | 'end-of-call-report';
+
+export interface TimelineEntry {
+  id: string;
+  /** When it happened (ISO); VAPI's own timestamp for webhooks that carry one. */
+  at: string;
+  source: TimelineSource;
+  /** Server message type (`status-update`, `transcript`, ...) or the panel's log type (`poll`, `error`, ...). */
+  type: string;
+  summary: string;
+  highlight?: TimelineHighlight;
+  /** Call status reported by this entry, if any. */
+  status?: string;
+  data: unknown;
+}
+
+type Description = Pick<TimelineEntry, 'summary' | 'highlight' | 'status'>;
+
+function toIso(value: unknown) {
+  const time = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : NaN;
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined;
+}
+
+function isServerMessage(value: unknown): value is ServerMessage {
+  return Boolean(value) && typeof value === 'object' && typeof (value as ServerMessage).type === 'string';
+}
+
+function truncate(text: string, length = 160) {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+function describeData(data: unknown) {
+  return truncate(typeof data === 'string' ? data : JSON.stringify(data) ?? '');
+}
+
+/** One-line summary of a server message, as sent to the Server URL or over the listen WebSocket. */
+export function describeServerMessage(message: ServerMessage): Description {
+  switch (message.type) {
+    case 'status-update': {
+      const status = message.status ?? message.call?.status;
+      return { summary: `Status: ${status}${message.endedReason ? ` (${message.endedReason})` : ''}`, status };
+    }
+    case 'transcript': {
+      const final = message.transcriptType !== 'partial';
+      return {
+        summary: `${message.role ?? 'unknown'}${final ? '' : ' (partial)'}: ${message.transcript ?? ''}`,
+        // Partial transcripts are superseded by the final one
+        highlight: final ? 'transcript' : undefined,
+      };
+    }
+    case 'tool-calls': {
+      const names = getToolCalls(message).map((toolCall) => toolCall.name);
+      return { summary: `Tool calls: ${names.join(', ') || 'none'}`, highlight: 'tool-calls' };
+    }
+    case 'end-of-call-report': {
+      const summary = message.analysis?.summary ?? message.summary;
+      return {
+        summary: `End of call report${message.endedReason ? `: ${message.endedReason}` : ''}${summary ? ` — ${truncate(summary)}` : ''}`,
+        highlight: 'end-of-call-report',
+      };
+    }
+    case 'speech-update':
+      return { summary: `${message.role ?? 'unknown'} speech ${message.status ?? ''}`.trim() };
+    case 'conversation-update':
+      return { summary: `Conversation updated (${Array.isArray(message.messages) ? message.messages.length : 0} messages)` };
+    case 'transfer-destination-request':
+    case 'transfer-update': {
+      const destination = message.destination?.number ?? message.destination?.sipUri;
+      return { summary: `${message.type}${destination ? `: ${destination}` : ''}` };
+    }
+    case 'hang':
+      return { summary: 'Assistant did not respond in time (hang)' };
+    default:
+      return { summary: message.type };
+  }
+}
+
+function webhookEntry(evt: WebhookEvent): TimelineEntry {
+  const message = getWebhookMessage(evt);
+  const description = isServerMessage(message) ? describeServerMessage(message) : { summary: evt.eventType ?? 'webhook' };
+  return {
+    id: `webhook-${evt.id}`,
+    at: toIso(message?.timestamp) ?? evt.receivedAt,
+    source: 'webhook',
+    type: evt.eventType ?? message?.type ?? 'webhook',
+    ...description,
+    data: message ?? evt.payload,
+  };
+}
+
+function messageEntry(msg: MonitorMessage, index: number): TimelineEntry | null {
+  // Audio frames are not events
+  if (msg.data?.binary) return null;
+  const entry = { id: `${msg.source ?? 'listen'}-${msg.timestamp}-${index}`, at: msg.timestamp, source: msg.source ?? 'listen', data: msg.data };
+
+  if (isServerMessage(msg.data)) {
+    return { ...entry, type: msg.data.type, ...describeServerMessage(msg.data) };
+  }
+  // Poll results carry the whole call; only its status goes on the timeline
+  if (msg.type === 'poll' && msg.data?.updated) {
+    const status = msg.data.updated.status;
+    return { ...entry, type: 'poll', summary: `Polled: status ${status}`, status };
+  }
+  return { ...entry, type: msg.type, summary: describeData(msg.data) };
+}
+
+/**
+ * Merge what is known about a call into one timeline, oldest first. Status changes are highlighted
+ * once, whichever source saw them first; later reports of the same status are kept unhighlighted,
+ * except polls, which are dropped when they saw nothing new.
+ */
+export function buildCallTimeline(callId: string, webhooks: WebhookEvent[], messages: MonitorMessage[]): TimelineEntry[] {
+  const entries = [
+    ...webhooks.filter((evt) => getWebhookCallId(evt) === callId).map(webhookEntry),
+    ...messages.flatMap((msg, index) => messageEntry(msg, index) ?? []),
+  ].sort((a, b) => (a.at < b.at ? -1 : a.at > b.at ? 1 : 0));
+
+  let status: string | undefined;
+  return entries.flatMap((entry) => {
+    if (!entry.status) return [entry];
+    if (entry.status === status) return entry.source === 'poll' ? [] : [entry];
+    status = entry.status;
+    return [{ ...entry, highlight: 'status' as const }];
+  });
+}
@@ -0,0 +1,94 @@
+// Minimal RFC 4180 CSV parser for contact list imports: quoted fields, escaped quotes ("")
+// and line breaks inside quotes are supported. Blank lines are skipped.
+
+export interface CsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+/** Thrown for malformed CSV; `line` is the 1-based line where the problem starts. */
+export class CsvParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`CSV line ${line}: ${message}`);
+    this.name = 'CsvParseError';
+    this.line = line;
+  }
+}
+
+/** Parse CSV text, treating the first non-blank line as the header row. */
+export function parseCsv(text: string): CsvTable {
+  const records = parseRecords(text.replace(/^\uFEFF/, ''));
+  if (records.length === 0) return { headers: [], rows: [] };
+
+  const headers = records[0].map((header) => header.trim());
+  const seen = new Set<string>();
+  headers.forEach((header, index) => {
+    if (!header) throw new CsvParseError(`column ${index + 1} has no header`, 1);
+    if (seen.has(header)) throw new CsvParseError(`duplicate column "${header}"`, 1);
+    seen.add(header);
+  });
+
+  // Pad short rows so every row can be indexed by header position
+  const rows = records.slice(1).map((record) =>
+    headers.map((_, index) => (record[index] ?? '').trim())
+  );
+  return { headers, rows };
+}
+
+function parseRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  const endRecord = () => {
+    record.push(field);
+    // A line with a single empty field is a blank line
+    if (record.length > 1 || record[0] !== '') records.push(record);
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field.trim() !== '') throw new CsvParseError('unexpected quote inside an unquoted field', line);
+      field = '';
+      inQuotes = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) throw new CsvParseError('quoted field is never closed', quoteLine);
+  if (field !== '' || record.length > 0) endRecord();
+  return records;
+}
@@ -0,0 +1,78 @@
+// Browser side of the listen relay: presents the `/api/vapi-listen` event stream as a WebSocket-like
+// socket, so `WsConnectionManager` handles relayed and direct listen connections the same way.
+
+import type { WsSocket } from './ws-connection-manager';
+
+export const LISTEN_RELAY_ROUTE = '/api/vapi-listen';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+/** Relay URL that streams the given listen URL. */
+export function relayListenUrl(listenUrl: string) {
+  return `${LISTEN_RELAY_ROUTE}?url=${encodeURIComponent(listenUrl)}`;
+}
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
+
+/**
+ * An EventSource on the relay route dressed up as a WebSocket. Opens when the relay's upstream
+ * connection is open; audio arrives as ArrayBuffer messages and text as string messages. The
+ * EventSource's own retries are disabled: reconnecting is left to the connection manager.
+ */
+export class RelaySocket implements WsSocket {
+  readyState = CONNECTING;
+  binaryType: BinaryType = 'arraybuffer';
+  onopen: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  private source: EventSource;
+
+  constructor(url: string) {
+    this.source = new EventSource(url);
+
+    this.source.addEventListener('status', (event) => {
+      const status = JSON.parse((event as MessageEvent<string>).data) as { state: string; code?: number; message?: string };
+      if (status.state === 'open' && this.readyState === CONNECTING) {
+        this.readyState = OPEN;
+        this.onopen?.(new Event('open'));
+      } else if (status.state === 'closed') {
+        this.finish(status.code ?? 1000, status.message ?? '');
+      }
+    });
+    this.source.addEventListener('audio', (event) => {
+      this.onmessage?.(new MessageEvent('message', { data: base64ToArrayBuffer((event as MessageEvent<string>).data) }));
+    });
+    this.source.addEventListener('message', (event) => {
+      this.onmessage?.(new MessageEvent('message', { data: JSON.parse(event.data) }));
+    });
+    this.source.onerror = () => {
+      // Either the route rejected the URL or the stream dropped
+      this.onerror?.(new Event('error'));
+      this.finish(1006, 'relay stream lost');
+    };
+  }
+
+  close(code = 1000, reason = '') {
+    this.finish(code, reason);
+  }
+
+  private finish(code: number, reason: string) {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.source.close();
+    this.onclose?.(new CloseEvent('close', { code, reason, wasClean: code === 1000 }));
+  }
+}
+
+/** `createSocket` for listen connections: relay URLs get a `RelaySocket`, others a real WebSocket. */
+export function createListenSocket(url: string): WsSocket {
+  return url.startsWith(LISTEN_RELAY_ROUTE) ? new RelaySocket(url) : new WebSocket(url);
+}
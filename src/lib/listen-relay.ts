@@ -0,0 +1,175 @@
+// Server-side relay for call listen streams. Browsers often can't open VAPI's listen WebSocket
+// directly (firewalls, proxies, TLS inspection), so `/api/vapi-listen` opens it from the server and
+// re-streams the frames to the browser as Server-Sent Events. One upstream connection per listen URL
+// is shared by every viewer, so several people can follow the same call.
+//
+// Server-only: uses the `ws` package.
+
+import WebSocket from 'ws';
+
+export type RelayState = 'connecting' | 'open' | 'closed';
+
+export type RelayEvent =
+  | { type: 'audio'; data: Buffer }
+  | { type: 'message'; data: string }
+  /** `closed` ends the stream; `code` is the upstream close code (1000 when the call ended normally). */
+  | { type: 'status'; state: RelayState; code?: number; message?: string };
+
+export type RelaySubscriber = (event: RelayEvent) => void;
+
+export interface ListenRelayInfo {
+  /** Listen URL without its query string (which may carry credentials). */
+  url: string;
+  state: RelayState;
+  viewers: number;
+  framesRelayed: number;
+  bytesRelayed: number;
+  openedAt: string;
+}
+
+/** Thrown by `subscribeToListenStream` when the relay is at capacity. */
+export class ListenRelayLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ListenRelayLimitError';
+  }
+}
+
+const MAX_RELAYS = 20;
+const MAX_VIEWERS_PER_RELAY = 25;
+const UPSTREAM_CONNECT_TIMEOUT_MS = 10000;
+// Keep the upstream open briefly after the last viewer leaves, so a page reload doesn't reconnect
+const IDLE_CLOSE_MS = 5000;
+// Upstream close code used when the relay gives up on a connection itself
+const ABNORMAL_CLOSURE = 1006;
+
+class ListenRelay {
+  private upstream: WebSocket;
+  private subscribers = new Set<RelaySubscriber>();
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private state: RelayState = 'connecting';
+  private framesRelayed = 0;
+  private bytesRelayed = 0;
+  private readonly openedAt = new Date().toISOString();
+
+  constructor(private readonly url: URL, private readonly onClosed: () => void) {
+    // Listen URLs are capability URLs; the API key is never sent with them
+    this.upstream = new WebSocket(url);
+    this.connectTimer = setTimeout(() => {
+      this.finish(ABNORMAL_CLOSURE, `listen WebSocket did not open within ${UPSTREAM_CONNECT_TIMEOUT_MS}ms`);
+    }, UPSTREAM_CONNECT_TIMEOUT_MS);
+
+    this.upstream.on('open', () => {
+      this.clearConnectTimer();
+      this.state = 'open';
+      console.log('[vapi-listen] upstream open:', this.info().url);
+      this.broadcast({ type: 'status', state: 'open' });
+    });
+    this.upstream.on('message', (data, isBinary) => {
+      const buffer = Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer);
+      this.framesRelayed++;
+      this.bytesRelayed += buffer.byteLength;
+      this.broadcast(isBinary ? { type: 'audio', data: buffer } : { type: 'message', data: buffer.toString('utf8') });
+    });
+    this.upstream.on('error', (err) => {
+      console.error('[vapi-listen] upstream error:', this.info().url, err.message);
+    });
+    this.upstream.on('close', (code, reason) => {
+      this.finish(code, reason.toString() || undefined);
+    });
+  }
+
+  /** Add a viewer. The current state is sent straight away so late joiners know where things stand. */
+  subscribe(subscriber: RelaySubscriber) {
+    if (this.subscribers.size >= MAX_VIEWERS_PER_RELAY) {
+      throw new ListenRelayLimitError(`this call already has ${MAX_VIEWERS_PER_RELAY} viewers`);
+    }
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.subscribers.add(subscriber);
+    subscriber({ type: 'status', state: this.state });
+
+    return () => this.removeSubscriber(subscriber);
+  }
+
+  info(): ListenRelayInfo {
+    return {
+      url: `${this.url.protocol}//${this.url.host}${this.url.pathname}`,
+      state: this.state,
+      viewers: this.subscribers.size,
+      framesRelayed: this.framesRelayed,
+      bytesRelayed: this.bytesRelayed,
+      openedAt: this.openedAt,
+    };
+  }
+
+  private broadcast(event: RelayEvent) {
+    this.subscribers.forEach(subscriber => {
+      try {
+        subscriber(event);
+      } catch (err) {
+        // A viewer whose stream broke must not stop the others
+        console.warn('[vapi-listen] dropping viewer after send failure:', err);
+        this.removeSubscriber(subscriber);
+      }
+    });
+  }
+
+  /** Drop a viewer; the upstream is closed once nobody has been watching for `IDLE_CLOSE_MS`. */
+  private removeSubscriber(subscriber: RelaySubscriber) {
+    if (!this.subscribers.delete(subscriber) || this.subscribers.size > 0 || this.state === 'closed') return;
+    this.idleTimer = setTimeout(() => this.finish(1000, 'no viewers left'), IDLE_CLOSE_MS);
+  }
+
+  private finish(code: number, message?: string) {
+    if (this.state === 'closed') return;
+    this.state = 'closed';
+    this.clearConnectTimer();
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    this.upstream.removeAllListeners('close');
+    // Keep a no-op error listener: `ws` throws on unhandled 'error' events during teardown
+    this.upstream.on('error', () => {});
+    if (this.upstream.readyState === WebSocket.CONNECTING) this.upstream.terminate();
+    else if (this.upstream.readyState === WebSocket.OPEN) this.upstream.close(1000);
+
+    console.log('[vapi-listen] relay closed:', this.info().url, code, message ?? '');
+    this.broadcast({ type: 'status', state: 'closed', code, message });
+    this.subscribers.clear();
+    this.onClosed();
+  }
+
+  private clearConnectTimer() {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+}
+
+const relays = new Map<string, ListenRelay>();
+
+/**
+ * Watch a call's listen stream. Joins the existing relay for the URL or opens a new one.
+ * Returns the unsubscribe function; throws `ListenRelayLimitError` when the relay is full.
+ */
+export function subscribeToListenStream(url: URL, subscriber: RelaySubscriber): () => void {
+  const key = url.toString();
+  let relay = relays.get(key);
+  if (!relay) {
+    if (relays.size >= MAX_RELAYS) throw new ListenRelayLimitError(`already relaying ${MAX_RELAYS} calls`);
+    const created: ListenRelay = new ListenRelay(url, () => {
+      if (relays.get(key) === created) relays.delete(key);
+    });
+    relay = created;
+    relays.set(key, relay);
+  }
+  return relay.subscribe(subscriber);
+}
+
+export function listListenRelays(): ListenRelayInfo[] {
+  return Array.from(relays.values(), relay => relay.info());
+}
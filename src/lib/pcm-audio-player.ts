@@ -0,0 +1,197 @@
+// Real-time playback of raw PCM frames (16-bit little-endian, as sent by the VAPI listen WebSocket)
+// through the Web Audio API. Frames are scheduled back to back with a small lead so network jitter
+// doesn't cause gaps, and the queue is trimmed when it grows so latency stays bounded.
+
+export type PcmChannelLayout = 'mono' | 'stereo';
+
+/** How a stereo stream is played: both channels, one side only, or mixed down to mono. */
+export type StereoPlayback = 'both' | 'left' | 'right' | 'mix';
+
+export interface PcmFormat {
+  sampleRate: number;
+  channels: PcmChannelLayout;
+  stereoPlayback: StereoPlayback;
+}
+
+export type BufferHealth = 'idle' | 'starving' | 'healthy' | 'overflowing';
+
+export interface PcmPlayerStats {
+  /** Audio scheduled but not yet played, in milliseconds. */
+  bufferedMs: number;
+  health: BufferHealth;
+  /** Frames that arrived after the previous audio had already run out. */
+  underruns: number;
+  /** Frames discarded to keep latency bounded. */
+  droppedFrames: number;
+  framesPlayed: number;
+}
+
+export const PCM_SAMPLE_RATES = [8000, 16000, 24000, 44100, 48000];
+
+export const DEFAULT_PCM_FORMAT: PcmFormat = {
+  sampleRate: 16000,
+  channels: 'mono',
+  stereoPlayback: 'both',
+};
+
+// Delay before the first frame after a gap, giving the next frames time to arrive
+const START_LEAD_SECONDS = 0.1;
+// Queue length above which incoming frames are dropped
+const MAX_BUFFERED_SECONDS = 1;
+const STARVING_BELOW_SECONDS = 0.04;
+const OVERFLOWING_ABOVE_SECONDS = 0.6;
+
+export class PcmAudioPlayer {
+  private context: AudioContext | null = null;
+  private gain: GainNode | null = null;
+  private format: PcmFormat = DEFAULT_PCM_FORMAT;
+  private volume = 1;
+  private muted = false;
+  private nextStartTime = 0;
+  // Odd trailing byte of a frame, prepended to the next one so samples stay aligned
+  private carry: Uint8Array | null = null;
+  private stats = { underruns: 0, droppedFrames: 0, framesPlayed: 0 };
+
+  get active() {
+    return this.context !== null;
+  }
+
+  /** Create the AudioContext. Must be called from a user gesture (click) or browsers keep it suspended. */
+  async start() {
+    if (this.context) return;
+    const context = new AudioContext();
+    const gain = context.createGain();
+    gain.connect(context.destination);
+    this.context = context;
+    this.gain = gain;
+    this.applyGain();
+    this.nextStartTime = 0;
+    this.carry = null;
+    this.stats = { underruns: 0, droppedFrames: 0, framesPlayed: 0 };
+    await context.resume();
+  }
+
+  async stop() {
+    const context = this.context;
+    this.context = null;
+    this.gain = null;
+    this.carry = null;
+    if (context) await context.close();
+  }
+
+  setVolume(volume: number) {
+    this.volume = Math.min(1, Math.max(0, volume));
+    this.applyGain();
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    this.applyGain();
+  }
+
+  getFormat(): PcmFormat {
+    return this.format;
+  }
+
+  setFormat(format: Partial<PcmFormat>) {
+    this.format = { ...this.format, ...format };
+    // Samples already queued were decoded with the old format; start cleanly with the next frame
+    this.carry = null;
+  }
+
+  /** Queue one binary frame for playback. Ignored while the player is stopped. */
+  push(frame: ArrayBuffer) {
+    const context = this.context;
+    if (!context || !this.gain || context.state === 'closed') return;
+
+    const samples = this.toSamples(new Uint8Array(frame));
+    const { channels } = this.format;
+    const channelCount = channels === 'stereo' ? 2 : 1;
+    const frameCount = Math.floor(samples.length / channelCount);
+    if (frameCount === 0) return;
+
+    const now = context.currentTime;
+    if (this.nextStartTime - now > MAX_BUFFERED_SECONDS) {
+      this.stats.droppedFrames++;
+      return;
+    }
+    if (this.nextStartTime < now) {
+      // Ran dry (or first frame): count it unless nothing has played yet, then re-add a lead
+      if (this.stats.framesPlayed > 0) this.stats.underruns++;
+      this.nextStartTime = now + START_LEAD_SECONDS;
+    }
+
+    const buffer = this.decode(context, samples, frameCount);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.gain);
+    source.start(this.nextStartTime);
+    this.nextStartTime += buffer.duration;
+    this.stats.framesPlayed++;
+  }
+
+  getStats(): PcmPlayerStats {
+    const bufferedSeconds = this.context ? Math.max(0, this.nextStartTime - this.context.currentTime) : 0;
+    let health: BufferHealth = 'idle';
+    if (this.context && this.stats.framesPlayed > 0) {
+      health = bufferedSeconds < STARVING_BELOW_SECONDS
+        ? 'starving'
+        : bufferedSeconds > OVERFLOWING_ABOVE_SECONDS ? 'overflowing' : 'healthy';
+    }
+    return { bufferedMs: Math.round(bufferedSeconds * 1000), health, ...this.stats };
+  }
+
+  private applyGain() {
+    if (this.gain) this.gain.gain.value = this.muted ? 0 : this.volume;
+  }
+
+  private toSamples(bytes: Uint8Array): Int16Array {
+    let data = bytes;
+    if (this.carry) {
+      data = new Uint8Array(this.carry.length + bytes.length);
+      data.set(this.carry);
+      data.set(bytes, this.carry.length);
+      this.carry = null;
+    }
+    const usable = data.length - (data.length % 2);
+    if (usable < data.length) this.carry = data.slice(usable);
+    // Copy into an aligned buffer; DataView keeps this correct on big-endian machines too
+    const view = new DataView(data.buffer, data.byteOffset, usable);
+    const samples = new Int16Array(usable / 2);
+    for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(i * 2, true);
+    return samples;
+  }
+
+  private decode(context: AudioContext, samples: Int16Array, frameCount: number): AudioBuffer {
+    const { sampleRate, channels, stereoPlayback } = this.format;
+    const toFloat = (sample: number) => sample / 0x8000;
+
+    if (channels === 'mono') {
+      const buffer = context.createBuffer(1, frameCount, sampleRate);
+      const out = buffer.getChannelData(0);
+      for (let i = 0; i < frameCount; i++) out[i] = toFloat(samples[i]);
+      return buffer;
+    }
+
+    // Interleaved stereo: L R L R ...
+    if (stereoPlayback === 'both') {
+      const buffer = context.createBuffer(2, frameCount, sampleRate);
+      const left = buffer.getChannelData(0);
+      const right = buffer.getChannelData(1);
+      for (let i = 0; i < frameCount; i++) {
+        left[i] = toFloat(samples[i * 2]);
+        right[i] = toFloat(samples[i * 2 + 1]);
+      }
+      return buffer;
+    }
+
+    const buffer = context.createBuffer(1, frameCount, sampleRate);
+    const out = buffer.getChannelData(0);
+    for (let i = 0; i < frameCount; i++) {
+      const left = toFloat(samples[i * 2]);
+      const right = toFloat(samples[i * 2 + 1]);
+      out[i] = stereoPlayback === 'left' ? left : stereoPlayback === 'right' ? right : (left + right) / 2;
+    }
+    return buffer;
+  }
+}
@@ -0,0 +1,83 @@
+// Form model for inline phone number editing: converts between VAPI phone numbers and flat
+// drafts, and builds the PATCH /phone-number/:id body including inbound call routing.
+
+import type { PhoneNumber, UpdatePhoneNumberInput } from './vapi-types';
+
+/** Who answers inbound calls: a fixed assistant, or a server asked per call via `assistant-request`. */
+export type InboundRouting = 'none' | 'assistant' | 'server';
+
+export interface PhoneNumberDraft {
+  name: string;
+  numberE164CheckEnabled: boolean;
+  routing: InboundRouting;
+  assistantId: string;
+  serverUrl: string;
+}
+
+export type PhoneNumberDraftErrors = Partial<Record<keyof PhoneNumberDraft, string>>;
+
+export function phoneNumberToDraft(phone: PhoneNumber): PhoneNumberDraft {
+  return {
+    name: phone.name || '',
+    numberE164CheckEnabled: !!phone.numberE164CheckEnabled,
+    routing: phone.assistantId ? 'assistant' : phone.server?.url ? 'server' : 'none',
+    assistantId: phone.assistantId || '',
+    serverUrl: phone.server?.url || '',
+  };
+}
+
+/**
+ * Build the PATCH body for a draft. Only one routing target is kept: the other is cleared with
+ * `null`, because VAPI prefers `assistantId` over `server` when both are set. A cleared name is
+ * sent as `null` too, since leaving it out would keep the old one.
+ */
+export function draftToPhoneNumberUpdate(draft: PhoneNumberDraft, existing: PhoneNumber): UpdatePhoneNumberInput {
+  const update: UpdatePhoneNumberInput = {
+    name: draft.name.trim() || null,
+    numberE164CheckEnabled: draft.numberE164CheckEnabled,
+  };
+
+  switch (draft.routing) {
+    case 'assistant':
+      update.assistantId = draft.assistantId;
+      if (existing.server) update.server = null;
+      break;
+    case 'server':
+      // Keep the secret and timeout configured elsewhere
+      update.server = { ...existing.server, url: draft.serverUrl.trim() };
+      if (existing.assistantId) update.assistantId = null;
+      break;
+    case 'none':
+      if (existing.assistantId) update.assistantId = null;
+      if (existing.server) update.server = null;
+      break;
+  }
+
+  return update;
+}
+
+export function validatePhoneNumberDraft(draft: PhoneNumberDraft): PhoneNumberDraftErrors {
+  const errors: PhoneNumberDraftErrors = {};
+
+  if (draft.name.trim().length > 40) {
+    // VAPI rejects phone number names longer than 40 characters
+    errors.name = 'Name must be 40 characters or fewer';
+  }
+
+  if (draft.routing === 'assistant' && !draft.assistantId) {
+    errors.assistantId = 'Select an assistant';
+  }
+
+  if (draft.routing === 'server') {
+    try {
+      const url = new URL(draft.serverUrl.trim());
+      if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+        errors.serverUrl = 'Server URL must use http or https';
+      }
+    } catch {
+      errors.serverUrl = 'Server URL must be a valid URL';
+    }
+  }
+
+  return errors;
+}
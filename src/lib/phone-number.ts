@@ -0,0 +1,211 @@
+// Country-aware phone number parsing, validation and formatting.
+// Numbers typed in national format are interpreted using a default country; numbers that don't
+// fit that country's numbering plan are rejected with an explanation instead of being guessed at.
+
+export interface CountryNumberingPlan {
+  code: CountryCode;
+  name: string;
+  /** Country calling code without the leading `+`. */
+  callingCode: string;
+  /** Digit dialled before the national number in national format (e.g. `0` in the UK). */
+  trunkPrefix?: string;
+  /** Allowed lengths of the national significant number (no calling code or trunk prefix). */
+  lengths: number[];
+  /**
+   * Valid national significant numbers: which leading digits (area codes, mobile and service ranges)
+   * go with which lengths. A simplified version of the country's plan, strict enough to catch numbers
+   * typed for the wrong country.
+   */
+  pattern: RegExp;
+  /** Digit groups used for display; a `0` group takes whatever digits remain. */
+  groups: number[] | ((nationalNumber: string) => number[]);
+  /** Override for national display format when it differs from trunk prefix + groups. */
+  formatNational?: (nationalNumber: string) => string;
+}
+
+export type CountryCode =
+  | 'US' | 'CA' | 'GB' | 'IE' | 'DE' | 'FR' | 'ES' | 'IT' | 'NL' | 'AU'
+  | 'NZ' | 'IN' | 'PK' | 'AE' | 'SG' | 'JP' | 'BR' | 'MX' | 'ZA';
+
+const formatNanp = (nsn: string) => `(${nsn.slice(0, 3)}) ${nsn.slice(3, 6)}-${nsn.slice(6)}`;
+
+// North American numbers: 3-digit area code and exchange code, neither starting with 0 or 1 nor N11
+const NANP = { callingCode: '1', lengths: [10], pattern: /^[2-9](?!11)\d{2}[2-9](?!11)\d{6}$/, groups: [3, 3, 4], formatNational: formatNanp };
+
+export const COUNTRIES: CountryNumberingPlan[] = [
+  { code: 'US', name: 'United States', ...NANP },
+  { code: 'CA', name: 'Canada', ...NANP },
+  { code: 'GB', name: 'United Kingdom', callingCode: '44', trunkPrefix: '0', lengths: [9, 10], pattern: /^(?:(?:1[1-9]|2[03489]|3[0347]|5[56]|7[0-57-9]|8[047]|9[018])\d{8}|1\d{8}|800\d{6})$/, groups: (nsn) => (nsn.startsWith('2') ? [2, 4, 4] : [4, 0]) },
+  { code: 'IE', name: 'Ireland', callingCode: '353', trunkPrefix: '0', lengths: [7, 8, 9], pattern: /^(?:1\d{7}|[2-9]\d{6,8})$/, groups: [2, 3, 0] },
+  { code: 'DE', name: 'Germany', callingCode: '49', trunkPrefix: '0', lengths: [6, 7, 8, 9, 10, 11, 12, 13], pattern: /^[1-9]\d{5,12}$/, groups: [3, 0] },
+  { code: 'FR', name: 'France', callingCode: '33', trunkPrefix: '0', lengths: [9], pattern: /^[1-9]\d{8}$/, groups: [1, 2, 2, 2, 2] },
+  { code: 'ES', name: 'Spain', callingCode: '34', lengths: [9], pattern: /^[5-9]\d{8}$/, groups: [3, 3, 3] },
+  // Italian landlines keep their leading 0 internationally, so there is no trunk prefix to strip
+  { code: 'IT', name: 'Italy', callingCode: '39', lengths: [6, 7, 8, 9, 10, 11], pattern: /^(?:0\d{5,10}|3\d{8,9})$/, groups: [3, 3, 0] },
+  { code: 'NL', name: 'Netherlands', callingCode: '31', trunkPrefix: '0', lengths: [9], pattern: /^(?:[1-57]\d|6[1-58]|8[4578]|9[07])\d{7}$/, groups: [1, 4, 4] },
+  { code: 'AU', name: 'Australia', callingCode: '61', trunkPrefix: '0', lengths: [9], pattern: /^[2-478]\d{8}$/, groups: [3, 3, 3] },
+  { code: 'NZ', name: 'New Zealand', callingCode: '64', trunkPrefix: '0', lengths: [8, 9, 10], pattern: /^(?:[34679]\d{7}|2\d{7,9}|8\d{7,9})$/, groups: [2, 3, 0] },
+  { code: 'IN', name: 'India', callingCode: '91', trunkPrefix: '0', lengths: [10], pattern: /^[1-9]\d{9}$/, groups: [5, 5] },
+  { code: 'PK', name: 'Pakistan', callingCode: '92', trunkPrefix: '0', lengths: [9, 10], pattern: /^(?:3\d{9}|[124-9]\d{8,9})$/, groups: [3, 0] },
+  { code: 'AE', name: 'United Arab Emirates', callingCode: '971', trunkPrefix: '0', lengths: [8, 9], pattern: /^(?:5[0-8]\d{7}|[2-46-9]\d{7}|[68]00\d{5,6})$/, groups: [2, 3, 0] },
+  { code: 'SG', name: 'Singapore', callingCode: '65', lengths: [8], pattern: /^[3689]\d{7}$/, groups: [4, 4] },
+  { code: 'JP', name: 'Japan', callingCode: '81', trunkPrefix: '0', lengths: [9, 10], pattern: /^(?:[5789]0\d{8}|[1-9]\d{8})$/, groups: [0, 4, 4] },
+  { code: 'BR', name: 'Brazil', callingCode: '55', trunkPrefix: '0', lengths: [10, 11], pattern: /^[1-9][1-9](?:9\d{8}|[2-5]\d{7})$/, groups: [2, 0, 4] },
+  { code: 'MX', name: 'Mexico', callingCode: '52', lengths: [10], pattern: /^[1-9]\d{9}$/, groups: [2, 4, 4] },
+  { code: 'ZA', name: 'South Africa', callingCode: '27', trunkPrefix: '0', lengths: [9], pattern: /^[1-8]\d{8}$/, groups: [2, 3, 4] },
+];
+
+export const DEFAULT_COUNTRY: CountryCode = 'US';
+
+export interface ParsedPhoneNumber {
+  /** Normalised E.164 form, e.g. `+442079460958`. */
+  e164: string;
+  /** Country whose numbering plan the number was validated against; undefined for calling codes we don't know. */
+  country?: CountryNumberingPlan;
+  /** National significant number (digits after the calling code). */
+  nationalNumber: string;
+}
+
+export type PhoneNumberParseResult =
+  | { ok: true; phoneNumber: ParsedPhoneNumber }
+  | { ok: false; error: string };
+
+// E.164 allows at most 15 digits including the calling code
+const E164_MAX_DIGITS = 15;
+const E164_MIN_DIGITS = 8;
+
+export function getCountry(code: CountryCode): CountryNumberingPlan {
+  const country = COUNTRIES.find((c) => c.code === code);
+  if (!country) throw new Error(`Unknown country code: ${code}`);
+  return country;
+}
+
+/**
+ * Parse a number typed by a user. Numbers starting with `+` or `00` are international; anything
+ * else is read as a national number of `defaultCountry`.
+ */
+export function parsePhoneNumber(input: string, defaultCountry?: CountryCode): PhoneNumberParseResult {
+  const trimmed = input.trim();
+  if (!trimmed) return { ok: false, error: 'Enter a phone number' };
+  if (/[^\d\s().\-+/]/.test(trimmed)) {
+    return { ok: false, error: 'Phone numbers can only contain digits, spaces, dashes, dots, slashes and parentheses' };
+  }
+  if (trimmed.lastIndexOf('+') > 0) return { ok: false, error: '"+" is only allowed at the start of the number' };
+
+  // "+44 (0)20 ..." is a common way of writing numbers; the "(0)" is a trunk prefix, not part of the number
+  const cleaned = trimmed.replace(/\(0\)/g, '');
+  const digits = cleaned.replace(/\D/g, '');
+  if (!digits) return { ok: false, error: 'Enter a phone number' };
+
+  if (cleaned.startsWith('+')) return parseInternational(digits, defaultCountry);
+  if (digits.startsWith('00')) return parseInternational(digits.slice(2), defaultCountry);
+
+  if (!defaultCountry) {
+    return { ok: false, error: 'Add the country code (e.g. +44) or choose a default country' };
+  }
+  const country = getCountry(defaultCountry);
+  // North American users often dial "011" for international and "1" before national numbers
+  if (country.callingCode === '1') {
+    if (digits.startsWith('011')) return parseInternational(digits.slice(3), defaultCountry);
+    if (digits.length === 11 && digits.startsWith('1')) return validateNational(country, digits.slice(1));
+  }
+  const nationalNumber = country.trunkPrefix && digits.startsWith(country.trunkPrefix)
+    ? digits.slice(country.trunkPrefix.length)
+    : digits;
+  return validateNational(country, nationalNumber);
+}
+
+function parseInternational(digits: string, defaultCountry?: CountryCode): PhoneNumberParseResult {
+  if (digits.length > E164_MAX_DIGITS) {
+    return { ok: false, error: `International numbers have at most ${E164_MAX_DIGITS} digits; this one has ${digits.length}` };
+  }
+
+  // Calling codes are prefix-free, so at most one length (1-3 digits) can match
+  for (const length of [1, 2, 3]) {
+    const callingCode = digits.slice(0, length);
+    const candidates = COUNTRIES.filter((country) => country.callingCode === callingCode);
+    if (candidates.length === 0) continue;
+
+    // Countries sharing a calling code (US/CA) have the same plan; prefer the default country's name
+    const country = candidates.find((c) => c.code === defaultCountry) || candidates[0];
+    let nationalNumber = digits.slice(length);
+    // Tolerate a trunk prefix written after the calling code ("+44 020...")
+    if (country.trunkPrefix && nationalNumber.startsWith(country.trunkPrefix) && !country.lengths.includes(nationalNumber.length)) {
+      nationalNumber = nationalNumber.slice(country.trunkPrefix.length);
+    }
+    return validateNational(country, nationalNumber);
+  }
+
+  // Not a country we have a numbering plan for: accept any E.164-sized number as typed
+  if (digits.length < E164_MIN_DIGITS) {
+    return { ok: false, error: `International numbers have at least ${E164_MIN_DIGITS} digits; this one has ${digits.length}` };
+  }
+  return { ok: true, phoneNumber: { e164: `+${digits}`, nationalNumber: digits } };
+}
+
+function validateNational(country: CountryNumberingPlan, nationalNumber: string): PhoneNumberParseResult {
+  const label = `${country.name} (+${country.callingCode})`;
+  if (!country.lengths.includes(nationalNumber.length)) {
+    const min = Math.min(...country.lengths);
+    const max = Math.max(...country.lengths);
+    const expected = min === max ? `${min}` : `${min}-${max}`;
+    const problem = nationalNumber.length < min ? 'too short' : nationalNumber.length > max ? 'too long' : 'the wrong length';
+    return {
+      ok: false,
+      error: `Number is ${problem} for ${label}: expected ${expected} digits${country.trunkPrefix ? ` after the leading ${country.trunkPrefix}` : ''}, got ${nationalNumber.length}`,
+    };
+  }
+  if (!country.pattern.test(nationalNumber)) {
+    return {
+      ok: false,
+      error: `Number doesn't match the ${label} numbering plan: check the area code or mobile prefix`,
+    };
+  }
+  return {
+    ok: true,
+    phoneNumber: { e164: `+${country.callingCode}${nationalNumber}`, country, nationalNumber },
+  };
+}
+
+function groupDigits(digits: string, country: CountryNumberingPlan): string {
+  const groups = typeof country.groups === 'function' ? country.groups(digits) : country.groups;
+  const fixed = groups.reduce((sum, size) => sum + size, 0);
+  const sizes = groups.map((size) => (size === 0 ? Math.max(digits.length - fixed, 0) : size));
+  const parts: string[] = [];
+  let offset = 0;
+  for (const size of sizes) {
+    if (offset >= digits.length) break;
+    parts.push(digits.slice(offset, offset + size));
+    offset += size;
+  }
+  if (offset < digits.length) parts.push(digits.slice(offset));
+  return parts.filter(Boolean).join(' ');
+}
+
+export function formatInternational(phoneNumber: ParsedPhoneNumber): string {
+  const { country, nationalNumber } = phoneNumber;
+  if (!country) return phoneNumber.e164;
+  return `+${country.callingCode} ${groupDigits(nationalNumber, country)}`;
+}
+
+export function formatNational(phoneNumber: ParsedPhoneNumber): string {
+  const { country, nationalNumber } = phoneNumber;
+  if (!country) return phoneNumber.e164;
+  if (country.formatNational) return country.formatNational(nationalNumber);
+  return `${country.trunkPrefix || ''}${groupDigits(nationalNumber, country)}`;
+}
+
+/**
+ * Format a stored number (normally E.164) for display. Numbers that can't be parsed are shown
+ * exactly as stored rather than being rewritten.
+ */
+export function formatPhoneNumber(value: string, style: 'international' | 'national' = 'international'): string {
+  const result = parsePhoneNumber(value);
+  if (!result.ok) return value;
+  return style === 'national' ? formatNational(result.phoneNumber) : formatInternational(result.phoneNumber);
+}
+
+/** Regional-indicator flag emoji for a country code. */
+export function countryFlag(code: CountryCode): string {
+  return String.fromCodePoint(...[...code].map((char) => 0x1f1e6 + char.charCodeAt(0) - 65));
+}
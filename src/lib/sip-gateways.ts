@@ -0,0 +1,105 @@
+// Form helpers for editing the `gateways` list of a BYO SIP trunk credential.
+
+import type { SipGateway } from './vapi-types';
+
+/** Editable gateway row; numeric fields stay strings while the user types. */
+export interface GatewayDraft {
+  /** Client-side key so rows keep their identity while being reordered. */
+  key: number;
+  ip: string;
+  port: string;
+  netmask: string;
+  inboundEnabled: boolean;
+  outboundEnabled: boolean;
+}
+
+export type GatewayDraftErrors = Partial<Record<'ip' | 'port' | 'netmask', string>>;
+
+export interface GatewayValidation {
+  /** One entry per draft, empty when the row is valid. */
+  rows: GatewayDraftErrors[];
+  /** Errors about the list as a whole (empty, duplicates...). */
+  list?: string;
+}
+
+let nextKey = 1;
+
+export function newGatewayDraft(overrides: Partial<Omit<GatewayDraft, 'key'>> = {}): GatewayDraft {
+  return {
+    key: nextKey++,
+    ip: '',
+    port: '',
+    netmask: '',
+    inboundEnabled: true,
+    outboundEnabled: true,
+    ...overrides,
+  };
+}
+
+export function gatewayToDraft(gateway: SipGateway): GatewayDraft {
+  return newGatewayDraft({
+    ip: gateway.ip,
+    port: gateway.port !== undefined ? String(gateway.port) : '',
+    netmask: gateway.netmask !== undefined ? String(gateway.netmask) : '',
+    inboundEnabled: gateway.inboundEnabled !== false,
+    outboundEnabled: gateway.outboundEnabled !== false,
+  });
+}
+
+/** Convert drafts back to gateways, keeping fields the editor doesn't expose from `existing`. */
+export function draftsToGateways(drafts: GatewayDraft[], existing: SipGateway[] = []): SipGateway[] {
+  return drafts.map((draft) => {
+    const previous = existing.find((gateway) => gateway.ip === draft.ip.trim());
+    const gateway: SipGateway = {
+      ...previous,
+      ip: draft.ip.trim(),
+      inboundEnabled: draft.inboundEnabled,
+      outboundEnabled: draft.outboundEnabled,
+    };
+    // Leave port/netmask out entirely when blank so VAPI applies its defaults (5060 and /32)
+    if (draft.port.trim()) gateway.port = Number(draft.port);
+    else delete gateway.port;
+    if (draft.netmask.trim()) gateway.netmask = Number(draft.netmask);
+    else delete gateway.netmask;
+    return gateway;
+  });
+}
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+const HOSTNAME = /^(?=.{1,253}$)([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\.)+[a-zA-Z]{2,}$/;
+
+export function validateGatewayDrafts(drafts: GatewayDraft[]): GatewayValidation {
+  const rows = drafts.map((draft) => {
+    const errors: GatewayDraftErrors = {};
+    const ip = draft.ip.trim();
+    if (!ip) errors.ip = 'IP address is required';
+    else if (!IPV4.test(ip) && !HOSTNAME.test(ip)) errors.ip = 'Enter an IPv4 address or hostname';
+
+    if (draft.port.trim()) {
+      const port = Number(draft.port);
+      if (!Number.isInteger(port) || port < 1 || port > 65535) errors.port = 'Port must be 1-65535';
+    }
+
+    if (draft.netmask.trim()) {
+      const netmask = Number(draft.netmask);
+      // VAPI only accepts netmasks between /24 and /32
+      if (!Number.isInteger(netmask) || netmask < 24 || netmask > 32) errors.netmask = 'Netmask must be 24-32';
+    }
+    return errors;
+  });
+
+  let list: string | undefined;
+  if (drafts.length === 0) {
+    list = 'Add at least one gateway';
+  } else {
+    const endpoints = drafts.map((draft) => `${draft.ip.trim()}:${draft.port.trim() || '5060'}`);
+    if (new Set(endpoints).size !== endpoints.length) list = 'Each gateway IP and port must be unique';
+    else if (!drafts.some((draft) => draft.inboundEnabled || draft.outboundEnabled)) list = 'Enable inbound or outbound on at least one gateway';
+  }
+
+  return { rows, list };
+}
+
+export function hasGatewayErrors(result: GatewayValidation) {
+  return !!result.list || result.rows.some((row) => Object.keys(row).length > 0);
+}
@@ -0,0 +1,90 @@
+// Live call control. The browser sends commands to `/api/vapi-control`, which validates them and
+// forwards them to the call's `monitor.controlUrl` from the server.
+
+import { VapiApiError, VapiTimeoutError } from './vapi-errors';
+import type { CallControlCommand } from './vapi-types';
+
+const CONTROL_ROUTE = '/api/vapi-control';
+const CONTROL_TIMEOUT_MS = 15000;
+
+export interface CallControlResult {
+  /** HTTP status returned by the control URL. */
+  status: number;
+  /** Parsed JSON response body, or the raw text when it isn't JSON. */
+  body: unknown;
+}
+
+/**
+ * Check a command received from the browser before it is forwarded.
+ * Returns an error message, or null when the command is valid.
+ */
+export function validateControlCommand(value: unknown): string | null {
+  if (typeof value !== 'object' || value === null) return 'command must be an object';
+  const command = value as Record<string, any>;
+  const nonEmpty = (text: unknown) => typeof text === 'string' && text.trim() !== '';
+
+  switch (command.type) {
+    case 'say':
+      return nonEmpty(command.content) ? null : 'say requires non-empty content';
+    case 'add-message':
+      if (command.message?.role !== 'system' && command.message?.role !== 'user') return 'add-message role must be system or user';
+      return nonEmpty(command.message?.content) ? null : 'add-message requires non-empty content';
+    case 'control':
+      return command.control === 'mute-assistant' || command.control === 'unmute-assistant'
+        ? null
+        : 'control must be mute-assistant or unmute-assistant';
+    case 'transfer':
+      if (command.destination?.type === 'number') {
+        return /^\+[1-9]\d{6,14}$/.test(command.destination.number ?? '') ? null : 'transfer number must be in E.164 format';
+      }
+      if (command.destination?.type === 'sip') {
+        return /^sips?:\S+@\S+$/.test(command.destination.sipUri ?? '') ? null : 'transfer sipUri must look like sip:user@host';
+      }
+      return 'transfer destination type must be number or sip';
+    case 'end-call':
+      return null;
+    default:
+      return `unknown command type: ${String(command.type)}`;
+  }
+}
+
+/** Send a control command for a live call. Throws `VapiApiError` when the command is rejected. */
+export async function sendCallControl(controlUrl: string, command: CallControlCommand, options: { signal?: AbortSignal } = {}): Promise<CallControlResult> {
+  const { signal } = options;
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', abort);
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, CONTROL_TIMEOUT_MS);
+
+  try {
+    signal?.throwIfAborted();
+    const response = await fetch(CONTROL_ROUTE, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ controlUrl, command }),
+      signal: controller.signal,
+    });
+
+    const text = await response.text();
+    if (!response.ok) throw new VapiApiError(response.status, response.statusText, text);
+
+    let body: unknown = text;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      // Not JSON; keep the text
+    }
+    return { status: response.status, body };
+  } catch (error) {
+    // Commands aren't idempotent, so a timed out command is reported rather than retried
+    if (timedOut) throw new VapiTimeoutError(`POST ${CONTROL_ROUTE}`, CONTROL_TIMEOUT_MS);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Thrown when a VAPI API response does not match the shape the dashboard relies on.
+ * `path` points at the offending field (e.g. `[2].gateways[0].ip`).
+ */
+export class VapiValidationError extends Error {
+  readonly endpoint?: string;
+  readonly path: string;
+  readonly received: unknown;
+
+  constructor(path: string, expected: string, received: unknown, endpoint?: string) {
+    const where = endpoint ? ` for ${endpoint}` : '';
+    super(`Invalid VAPI response${where}: ${path || 'value'} expected ${expected}, got ${describeValue(received)}`);
+    this.name = 'VapiValidationError';
+    this.endpoint = endpoint;
+    this.path = path;
+    this.received = received;
+  }
+}
+
+function describeValue(value: unknown) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? value.slice(0, 40) + '…' : value}"`;
+  return typeof value;
+}
+
+/**
+ * Thrown when the VAPI API (or the proxy in front of it) answers with a non-2xx status.
+ * `retryAfterMs` is parsed from the `Retry-After` header when present.
+ */
+export class VapiApiError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+  readonly body: string;
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, statusText: string, body: string, retryAfterMs?: number) {
+    super(`HTTP ${status}: ${body}`);
+    this.name = 'VapiApiError';
+    this.status = status;
+    this.statusText = statusText;
+    this.body = body;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Thrown when a VAPI request attempt takes longer than its timeout. */
+export class VapiTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(endpoint: string, timeoutMs: number) {
+    super(`VAPI request ${endpoint} timed out after ${timeoutMs}ms`);
+    this.name = 'VapiTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** True when a request was cancelled through its AbortSignal (e.g. the component unmounted). */
+export function isAbortError(error: unknown) {
+  return error instanceof Error && error.name === 'AbortError';
+}
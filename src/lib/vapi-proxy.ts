@@ -0,0 +1,114 @@
+// Server-side helpers for the `/api/vapi/[...path]` proxy route and the call monitor routes.
+// Keeps the VAPI API key on the server and restricts which endpoints and hosts the browser can reach.
+
+type ProxyRule = {
+  method: string;
+  pattern: RegExp;
+};
+
+// Only the endpoints the dashboard actually uses are forwarded.
+// Add a rule here (and a description in VapiService.getApiDescription) when exposing a new endpoint.
+const ALLOWED_REQUESTS: ProxyRule[] = [
+  { method: 'GET', pattern: /^\/phone-number$/ },
+  { method: 'POST', pattern: /^\/phone-number$/ },
+  { method: 'PATCH', pattern: /^\/phone-number\/[^\/]+$/ },
+  { method: 'DELETE', pattern: /^\/phone-number\/[^\/]+$/ },
+  { method: 'GET', pattern: /^\/credential$/ },
+  { method: 'POST', pattern: /^\/credential$/ },
+  { method: 'PATCH', pattern: /^\/credential\/[^\/]+$/ },
+  { method: 'DELETE', pattern: /^\/credential\/[^\/]+$/ },
+  { method: 'GET', pattern: /^\/assistant$/ },
+  { method: 'POST', pattern: /^\/assistant$/ },
+  { method: 'GET', pattern: /^\/assistant\/[^\/]+$/ },
+  { method: 'PATCH', pattern: /^\/assistant\/[^\/]+$/ },
+  { method: 'DELETE', pattern: /^\/assistant\/[^\/]+$/ },
+  { method: 'GET', pattern: /^\/call$/ },
+  { method: 'GET', pattern: /^\/call\/[^\/]+$/ },
+  { method: 'POST', pattern: /^\/call$/ },
+];
+
+// Response headers worth passing back to the browser (rate limit hints etc.)
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset'];
+
+// Monitor URLs (listen/control) handed out by VAPI live on the call WebSocket hosts under vapi.ai,
+// e.g. `phone-call-websocket.aws-us-west-2-backend-production1.vapi.ai`; never on `api.vapi.ai`
+const VAPI_MONITOR_HOST = /^([a-z0-9-]+\.)*[a-z0-9-]*phone-call-websocket[a-z0-9-]*(\.[a-z0-9-]+)*\.vapi\.ai$/;
+
+export type MonitorUrlKind = 'listen' | 'control';
+
+const MONITOR_PROTOCOLS: Record<MonitorUrlKind, { secure: string; insecure: string }> = {
+  listen: { secure: 'wss:', insecure: 'ws:' },
+  control: { secure: 'https:', insecure: 'http:' },
+};
+
+export function getVapiServerConfig() {
+  return {
+    baseUrl: process.env.VAPI_BASE_URL || 'https://api.vapi.ai',
+    apiKey: process.env.VAPI_API_KEY || '',
+  };
+}
+
+export function isAllowedVapiRequest(method: string, endpoint: string) {
+  const upperMethod = method.toUpperCase();
+  return ALLOWED_REQUESTS.some((rule) => rule.method === upperMethod && rule.pattern.test(endpoint));
+}
+
+/**
+ * Build the upstream endpoint from the catch-all route segments.
+ * Segments are re-encoded so an encoded `/` or `..` cannot escape the allowlist.
+ */
+export function buildVapiEndpoint(segments: string[]) {
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    return null;
+  }
+  return '/' + segments.map((segment) => encodeURIComponent(segment)).join('/');
+}
+
+export function pickForwardedHeaders(headers: Headers) {
+  const result = new Headers();
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = headers.get(name);
+    if (value) result.set(name, value);
+  }
+  return result;
+}
+
+/**
+ * Extra hosts (`host` or `host:port`) allowed as monitor URLs, e.g. a local stand-in server.
+ * Read from the comma-separated VAPI_MONITOR_ALLOWED_HOSTS env var.
+ */
+function getExtraMonitorHosts() {
+  return (process.env.VAPI_MONITOR_ALLOWED_HOSTS || '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+export function isVapiMonitorHost(url: URL) {
+  return VAPI_MONITOR_HOST.test(url.hostname.toLowerCase());
+}
+
+/**
+ * Validate a call monitor URL before the server connects to it, so the monitor routes can't be used
+ * to reach arbitrary hosts or VAPI's REST API. The path must end in `/listen` or `/control` to match
+ * `kind`. VAPI hosts must use a secure protocol; hosts from VAPI_MONITOR_ALLOWED_HOSTS may also use
+ * plain http/ws.
+ *
+ * Monitor URLs are capability URLs: whoever has one can use it, so no credentials are sent with them.
+ */
+export function parseMonitorUrl(value: unknown, kind: MonitorUrlKind): URL | null {
+  if (typeof value !== 'string') return null;
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (url.username || url.password) return null;
+  if (url.search || !url.pathname.endsWith(`/${kind}`)) return null;
+
+  const protocols = MONITOR_PROTOCOLS[kind];
+  if (isVapiMonitorHost(url)) return url.protocol === protocols.secure ? url : null;
+  if (!getExtraMonitorHosts().includes(url.host.toLowerCase())) return null;
+  return url.protocol === protocols.secure || url.protocol === protocols.insecure ? url : null;
+}
@@ -1,91 +1,284 @@
+import { VapiApiError, VapiTimeoutError, VapiValidationError } from './vapi-errors';
+import {
+  AssistantSchema,
+  CallSchema,
+  CredentialSchema,
+  PhoneNumberSchema,
+  isSipCredential,
+  type Assistant,
+  type AssistantMonitoringStatus,
+  type AssistantUpdate,
+  type Call,
+  type CallPage,
+  type CreateAssistantInput,
+  type CreatePhoneNumberInput,
+  type CreateSipCredentialInput,
+  type Credential,
+  type CredentialReplaceReport,
+  type ListCallsFilters,
+  type MonitorPlan,
+  type PhoneNumber,
+  type SipCredential,
+  type UpdatePhoneNumberInput,
+} from './vapi-types';
+
+export interface RetryPolicy {
+  /** Retries after the first attempt; 0 disables retrying. */
+  maxRetries: number;
+  /** Delay before the first retry, doubled for each further attempt. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay. A larger `Retry-After` aborts retrying instead. */
+  maxDelayMs: number;
+  /** Statuses worth retrying for idempotent requests. 429 is always retried. */
+  retryOnStatuses: number[];
+}
+
+/** Options accepted by every public VapiService method. */
+export interface VapiCallOptions {
+  /** Cancels the request (and any pending retries), e.g. when a component unmounts. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout; defaults to the service-wide timeout. */
+  timeoutMs?: number;
+}
+
+export interface MakeCallOptions extends VapiCallOptions {
+  /**
+   * PATCH the assistant's monitor plan before placing the call (default true). Callers placing
+   * many calls with one assistant enable monitoring once themselves and turn this off.
+   */
+  enableMonitoring?: boolean;
+}
+
+export interface VapiRequestOptions extends Omit<RequestInit, 'signal'>, VapiCallOptions {
+  /**
+   * Whether repeating the request is safe. Defaults to true for GET/PUT/DELETE.
+   * Non-idempotent requests (e.g. POST /call) are only retried on 429, which VAPI
+   * returns before doing any work.
+   */
+  idempotent?: boolean;
+  /** Per-request overrides for the retry policy, or `false` to disable retries. */
+  retry?: Partial<RetryPolicy> | false;
+}
+
+export interface VapiRetryInfo {
+  willRetry: boolean;
+  delayMs?: number;
+  reason: string;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryOnStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+const DEFAULT_CALL_PAGE_SIZE = 25;
+// Most GET /call requests made to fill one page of calls filtered by status
+export const MAX_STATUS_FILTER_REQUESTS = 10;
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
 class VapiService {
   private baseUrl: string;
-  private apiKey: string;
+  private retryPolicy: RetryPolicy;
+  private timeoutMs: number;
+
+  constructor(options: { retry?: Partial<RetryPolicy>, timeoutMs?: number } = {}) {
+    // Requests go through the server-side proxy (`src/app/api/vapi/[...path]/route.ts`),
+    // which attaches the API key. The key itself never reaches the browser.
+    this.baseUrl = process.env.NEXT_PUBLIC_VAPI_PROXY_URL || '/api/vapi';
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  }
 
-  constructor() {
-    this.baseUrl = process.env.NEXT_PUBLIC_VAPI_BASE_URL || 'https://api.vapi.ai';
-    this.apiKey = process.env.NEXT_PUBLIC_VAPI_API_KEY || '';
-    
-    if (!this.apiKey) {
-      console.warn('VAPI API key not found in environment variables');
-    }
+  /** Change the default retry policy, e.g. to retry harder during batch scripts. */
+  configureRetries(policy: Partial<RetryPolicy>) {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
   }
 
-  private async request(endpoint: string, options: RequestInit = {}) {
+  /** Change the default per-attempt timeout (milliseconds). */
+  configureTimeout(timeoutMs: number) {
+    this.timeoutMs = timeoutMs;
+  }
+
+  private async request(endpoint: string, options: VapiRequestOptions = {}): Promise<unknown> {
+    const { idempotent, retry, signal, timeoutMs = this.timeoutMs, ...init } = options;
     const url = `${this.baseUrl}${endpoint}`;
+    const method = (init.method || 'GET').toUpperCase();
+    const policy: RetryPolicy = retry === false ? { ...this.retryPolicy, maxRetries: 0 } : { ...this.retryPolicy, ...retry };
+    const safeToRepeat = idempotent ?? IDEMPOTENT_METHODS.has(method);
+    const maxAttempts = policy.maxRetries + 1;
     
     const defaultHeaders = {
-      'Authorization': `Bearer ${this.apiKey}`,
       'Content-Type': 'application/json',
     };
 
     const config: RequestInit = {
-      ...options,
+      ...init,
       headers: {
         ...defaultHeaders,
-        ...options.headers,
+        ...init.headers,
       },
     };
 
-    // Enhanced logging with API call details
-    const apiCallInfo = {
-      method: config.method || 'GET',
-      url: url,
-      endpoint: endpoint,
-      headers: config.headers,
-      body: config.body ? JSON.parse(config.body as string) : undefined,
-      timestamp: new Date().toISOString(),
-      description: this.getApiDescription(endpoint, config.method || 'GET')
-    };
-
-    console.log(`🔄 VAPI API Call:`, apiCallInfo);
+    for (let attempt = 1; ; attempt++) {
+      // Enhanced logging with API call details
+      const apiCallInfo = {
+        method: config.method || 'GET',
+        url: url,
+        endpoint: endpoint,
+        headers: config.headers,
+        body: config.body ? JSON.parse(config.body as string) : undefined,
+        timestamp: new Date().toISOString(),
+        description: this.getApiDescription(endpoint, config.method || 'GET'),
+        attempt,
+        maxAttempts
+      };
 
-    try {
-      const response = await fetch(url, config);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`❌ API Error:`, {
-          ...apiCallInfo,
-          status: response.status,
-          statusText: response.statusText,
-          error: errorText
-        });
-        throw new Error(`HTTP ${response.status}: ${errorText}`);
+      console.log(`🔄 VAPI API Call${attempt > 1 ? ` (attempt ${attempt}/${maxAttempts})` : ''}:`, apiCallInfo);
+
+      // Each attempt gets its own controller so a timeout only cancels that attempt,
+      // while the caller's signal cancels everything
+      const attemptController = new AbortController();
+      const abortAttempt = () => attemptController.abort(signal?.reason);
+      signal?.addEventListener('abort', abortAttempt);
+      let timedOut = false;
+      const timer = setTimeout(() => {
+        timedOut = true;
+        attemptController.abort();
+      }, timeoutMs);
+
+      try {
+        signal?.throwIfAborted();
+        return await this.send(url, { ...config, signal: attemptController.signal }, apiCallInfo);
+      } catch (caught) {
+        const error = timedOut ? new VapiTimeoutError(`${method} ${endpoint}`, timeoutMs) : caught;
+        if (signal?.aborted) {
+          console.log(`⏹️ VAPI API Call cancelled:`, apiCallInfo);
+          window.dispatchEvent(new CustomEvent('vapiApiCall', {
+            detail: {
+              request: apiCallInfo,
+              error: { name: 'AbortError', message: 'Request cancelled' },
+              success: false,
+              retry: { willRetry: false, reason: 'Cancelled by caller' }
+            }
+          }));
+          throw caught;
+        }
+
+        const retryInfo = this.getRetryInfo(error, attempt, maxAttempts, policy, safeToRepeat);
+        console.error(`❌ Request failed:`, { ...apiCallInfo, error, retry: retryInfo });
+        
+        // Emit error event for UI, including whether another attempt follows
+        window.dispatchEvent(new CustomEvent('vapiApiCall', { 
+          detail: { 
+            request: apiCallInfo, 
+            error: error,
+            success: false,
+            retry: retryInfo
+          } 
+        }));
+        
+        if (!retryInfo.willRetry) throw error;
+        await this.delay(retryInfo.delayMs ?? 0, signal);
+      } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', abortAttempt);
       }
+    }
+  }
 
-      const data = await response.json();
-      console.log(`✅ API Success:`, {
+  private async send(url: string, config: RequestInit, apiCallInfo: Record<string, any>): Promise<unknown> {
+    const response = await fetch(url, config);
+    
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ API Error:`, {
         ...apiCallInfo,
         status: response.status,
-        responseSize: JSON.stringify(data).length,
-        resultCount: Array.isArray(data) ? data.length : 1
+        statusText: response.statusText,
+        error: errorText
       });
-      
-      // Emit custom event for UI to capture
-      window.dispatchEvent(new CustomEvent('vapiApiCall', { 
-        detail: { 
-          request: apiCallInfo, 
-          response: { status: response.status, data },
-          success: true
-        } 
-      }));
-      
-      return data;
-    } catch (error) {
-      console.error(`❌ Request failed:`, { ...apiCallInfo, error });
-      
-      // Emit error event for UI
-      window.dispatchEvent(new CustomEvent('vapiApiCall', { 
-        detail: { 
-          request: apiCallInfo, 
-          error: error,
-          success: false
-        } 
-      }));
-      
-      throw error;
+      throw new VapiApiError(response.status, response.statusText, errorText, parseRetryAfter(response.headers.get('retry-after')));
+    }
+
+    // DELETE and some PATCH responses may come back without a body
+    const text = await response.text();
+    const data = text ? JSON.parse(text) : null;
+    console.log(`✅ API Success:`, {
+      ...apiCallInfo,
+      status: response.status,
+      responseSize: text.length,
+      resultCount: Array.isArray(data) ? data.length : 1
+    });
+    
+    // Emit custom event for UI to capture
+    window.dispatchEvent(new CustomEvent('vapiApiCall', { 
+      detail: { 
+        request: apiCallInfo, 
+        response: { status: response.status, data },
+        success: true
+      } 
+    }));
+    
+    return data;
+  }
+
+  private delay(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal?.reason ?? new DOMException('Request cancelled', 'AbortError'));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private getRetryInfo(error: unknown, attempt: number, maxAttempts: number, policy: RetryPolicy, safeToRepeat: boolean): VapiRetryInfo {
+    if (attempt >= maxAttempts) {
+      return { willRetry: false, reason: maxAttempts > 1 ? `Gave up after ${attempt} attempts` : 'Retries disabled' };
+    }
+
+    let retryAfterMs: number | undefined;
+    if (error instanceof VapiApiError) {
+      if (error.status === 429) {
+        // Rate limited requests were rejected before processing, so any method can be repeated
+        retryAfterMs = error.retryAfterMs;
+      } else if (!safeToRepeat) {
+        return { willRetry: false, reason: `HTTP ${error.status} on a non-idempotent request is not retried` };
+      } else if (!policy.retryOnStatuses.includes(error.status)) {
+        return { willRetry: false, reason: `HTTP ${error.status} is not retryable` };
+      } else {
+        retryAfterMs = error.retryAfterMs;
+      }
+    } else if (error instanceof TypeError || error instanceof VapiTimeoutError) {
+      // Network failures and timeouts: the request may or may not have reached VAPI
+      if (!safeToRepeat) {
+        return { willRetry: false, reason: `${error instanceof VapiTimeoutError ? 'Timeout' : 'Network error'} on a non-idempotent request is not retried` };
+      }
+    } else {
+      return { willRetry: false, reason: 'Error is not retryable' };
     }
+
+    if (retryAfterMs !== undefined) {
+      if (retryAfterMs > policy.maxDelayMs) {
+        return { willRetry: false, reason: `Retry-After of ${Math.ceil(retryAfterMs / 1000)}s exceeds the maximum retry delay` };
+      }
+      return { willRetry: true, delayMs: retryAfterMs, reason: `Retry-After ${Math.ceil(retryAfterMs / 1000)}s` };
+    }
+
+    // Exponential backoff with "equal jitter": half fixed, half random
+    const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+    const delayMs = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    return { willRetry: true, delayMs, reason: `Backoff ${delayMs}ms before attempt ${attempt + 1}/${maxAttempts}` };
   }
 
   private getApiDescription(endpoint: string, method: string): string {
@@ -99,6 +292,8 @@ class VapiService {
       { pattern: /^PATCH \/credential\/[^\/]+$/, description: 'Update specific SIP trunk credential by ID' },
       { pattern: /^GET \/call\/[^\/]+$/, description: 'Fetch specific call details by ID' },
       { pattern: /^DELETE \/assistant\/[^\/]+$/, description: 'Delete specific AI assistant by ID' },
+      { pattern: /^PATCH \/assistant\/[^\/]+$/, description: 'Update specific AI assistant by ID' },
+      { pattern: /^GET \/assistant\/[^\/]+$/, description: 'Fetch specific AI assistant by ID' },
     ];
 
     // Check dynamic patterns first
@@ -127,23 +322,21 @@ class VapiService {
     return descriptions[key] || `${method} request to ${endpoint}`;
   }
 
-  async getPhoneNumbers() {
-    try {
-      const response = await this.request('/phone-number');
-      return Array.isArray(response) ? response : [];
-    } catch (error) {
-      console.error('Failed to fetch phone numbers:', error);
-      return [];
-    }
+  async getPhoneNumbers(options: VapiCallOptions = {}): Promise<PhoneNumber[]> {
+    return PhoneNumberSchema.parseList(await this.request('/phone-number', options), 'GET /phone-number');
   }
 
-    async makeCall(assistantId: string, phoneNumberId: string, customerNumber: string, customerName?: string, metadata?: Record<string, any>) {
+    async makeCall(assistantId: string, phoneNumberId: string, customerNumber: string, customerName?: string, metadata?: Record<string, any>, options: MakeCallOptions = {}): Promise<Call> {
+    const { enableMonitoring = true, ...callOptions } = options;
     // First, ensure the assistant has monitoring enabled for WebSocket connections
-    try {
-      await this.enableAssistantMonitoring(assistantId);
-      console.log(`✅ Monitoring enabled for assistant ${assistantId}`);
-    } catch (error) {
-      console.warn(`⚠️ Could not enable monitoring for assistant ${assistantId}:`, error);
+    if (enableMonitoring) {
+      try {
+        await this.enableAssistantMonitoring(assistantId, callOptions);
+        console.log(`✅ Monitoring enabled for assistant ${assistantId}`);
+      } catch (error) {
+        if (options.signal?.aborted) throw error;
+        console.warn(`⚠️ Could not enable monitoring for assistant ${assistantId}:`, error);
+      }
     }
 
     const payload: any = {
@@ -160,121 +353,314 @@ class VapiService {
       payload.metadata = metadata;
     }
 
-    return this.request('/call', {
+    const response = await this.request('/call', {
+      ...callOptions,
       method: 'POST',
       body: JSON.stringify(payload)
     });
+    return CallSchema.parse(response, 'POST /call');
   }
 
   // Credential Management
-  async listCredentials() {
-    return this.request('/credential');
+  async listCredentials(options: VapiCallOptions = {}): Promise<Array<Credential | SipCredential>> {
+    return CredentialSchema.parseList(await this.request('/credential', options), 'GET /credential');
   }
 
-  async createCredential(credentialData: any) {
-    return this.request('/credential', {
+  async createCredential(credentialData: CreateSipCredentialInput, options: VapiCallOptions = {}): Promise<SipCredential> {
+    const response = await this.request('/credential', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(credentialData)
     });
+    return this.expectSipCredential(CredentialSchema.parse(response, 'POST /credential'), 'POST /credential');
   }
 
-  async updateCredential(credentialId: string, credentialData: any) {
+  async updateCredential(credentialId: string, credentialData: Partial<CreateSipCredentialInput>, options: VapiCallOptions = {}): Promise<SipCredential> {
     // Note: VAPI API doesn't seem to support direct credential updates
     // This is a workaround - delete and recreate
     console.warn('VAPI does not support direct credential updates. Consider delete/recreate approach.');
     
     // Try PATCH first (in case it's supported but not documented)
+    let response: unknown;
     try {
-      return this.request(`/credential/${credentialId}`, {
+      response = await this.request(`/credential/${credentialId}`, {
+        ...options,
         method: 'PATCH',
         body: JSON.stringify(credentialData)
       });
     } catch (error) {
+      if (options.signal?.aborted) throw error;
       console.error('PATCH failed, credential updates may not be supported:', error);
       throw new Error('Credential updates are not supported by VAPI API. Please delete and recreate the credential instead.');
     }
+    return this.expectSipCredential(CredentialSchema.parse(response, 'PATCH /credential'), 'PATCH /credential');
   }
 
-  async deleteCredential(credentialId: string) {
-    return this.request(`/credential/${credentialId}`, {
+  async deleteCredential(credentialId: string, options: VapiCallOptions = {}): Promise<void> {
+    await this.request(`/credential/${credentialId}`, {
+      ...options,
       method: 'DELETE'
     });
   }
 
   // Phone Number Management
-  async createPhoneNumber(phoneNumberData: any) {
-    return this.request('/phone-number', {
+  async createPhoneNumber(phoneNumberData: CreatePhoneNumberInput, options: VapiCallOptions = {}): Promise<PhoneNumber> {
+    const response = await this.request('/phone-number', {
+      ...options,
       method: 'POST',
       body: JSON.stringify(phoneNumberData)
     });
+    return PhoneNumberSchema.parse(response, 'POST /phone-number');
+  }
+
+  async updatePhoneNumber(phoneNumberId: string, updates: UpdatePhoneNumberInput, options: VapiCallOptions = {}): Promise<PhoneNumber> {
+    const response = await this.request(`/phone-number/${phoneNumberId}`, {
+      ...options,
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+      idempotent: true
+    });
+    return PhoneNumberSchema.parse(response, 'PATCH /phone-number/:id');
   }
 
-  async deletePhoneNumber(phoneNumberId: string) {
-    return this.request(`/phone-number/${phoneNumberId}`, {
+  async deletePhoneNumber(phoneNumberId: string, options: VapiCallOptions = {}): Promise<void> {
+    await this.request(`/phone-number/${phoneNumberId}`, {
+      ...options,
       method: 'DELETE'
     });
   }
 
-  async getPhoneNumbersByCredential(credentialId: string) {
+  async getPhoneNumbersByCredential(credentialId: string, options: VapiCallOptions = {}): Promise<PhoneNumber[]> {
+    const allPhoneNumbers = await this.getPhoneNumbers(options);
+    return allPhoneNumbers.filter((phone) => phone.credentialId === credentialId);
+  }
+
+  /**
+   * Replace a SIP trunk credential without orphaning its phone numbers.
+   *
+   * Creates the new credential first, moves every number bound to the old one (PATCH, or
+   * delete + recreate if VAPI refuses the PATCH), and only then deletes the old credential.
+   * If any step fails, completed steps are undone in reverse order. The report lists every
+   * step, so callers can show exactly what happened.
+   *
+   * Rollback ignores `options.signal`: once started it always runs to completion.
+   */
+  async replaceCredential(oldCredentialId: string, credentialData: CreateSipCredentialInput, options: VapiCallOptions = {}): Promise<CredentialReplaceReport> {
+    const report: CredentialReplaceReport = { success: false, oldCredentialId, phoneNumbers: [], steps: [] };
+    const undo: Array<{ description: string, run: () => Promise<void> }> = [];
+
+    const step = async <T>(description: string, run: () => Promise<T>): Promise<T> => {
+      try {
+        const result = await run();
+        report.steps.push({ description, status: 'done' });
+        return result;
+      } catch (error) {
+        report.steps.push({ description, status: 'failed', error: errorMessage(error) });
+        throw error;
+      }
+    };
+
     try {
-      const allPhoneNumbers = await this.getPhoneNumbers();
-      return allPhoneNumbers.filter((phone: any) => phone.credentialId === credentialId);
+      const snapshot = await step(`Snapshot phone numbers on credential ${oldCredentialId}`, () =>
+        this.getPhoneNumbersByCredential(oldCredentialId, options)
+      );
+      report.phoneNumbers = snapshot.map((phone) => ({ previousId: phone.id, number: phone.number, action: 'pending' }));
+
+      const newCredential = await step('Create replacement credential', () => this.createCredential(credentialData, options));
+      report.newCredential = newCredential;
+      undo.push({
+        description: `Delete replacement credential ${newCredential.id}`,
+        run: () => this.deleteCredential(newCredential.id)
+      });
+
+      for (const [index, phone] of snapshot.entries()) {
+        const entry = report.phoneNumbers[index];
+        const label = phone.number || phone.name || phone.id;
+        try {
+          await step(`Re-point ${label} to the replacement credential`, () =>
+            this.updatePhoneNumber(phone.id, { credentialId: newCredential.id }, options)
+          );
+          entry.action = 'repointed';
+          entry.currentId = phone.id;
+          undo.push({
+            description: `Re-point ${label} back to credential ${oldCredentialId}`,
+            run: async () => {
+              await this.updatePhoneNumber(phone.id, { credentialId: oldCredentialId });
+              entry.action = 'rolled-back';
+            }
+          });
+        } catch (error) {
+          if (options.signal?.aborted) throw error;
+          // Some providers don't allow changing credentialId in place; recreate the number instead
+          const recreateInput = await step(`Check ${label} can be recreated`, async () =>
+            this.toPhoneNumberInput(phone, newCredential.id)
+          );
+          await step(`Delete ${label} so it can be recreated`, () => this.deletePhoneNumber(phone.id, options));
+          entry.action = 'deleted';
+          entry.currentId = undefined;
+          undo.push({
+            description: `Recreate ${label} on credential ${oldCredentialId}`,
+            run: async () => {
+              const restored = await this.createPhoneNumber(this.toPhoneNumberInput(phone, oldCredentialId));
+              entry.action = 'rolled-back';
+              entry.currentId = restored.id;
+            }
+          });
+          const recreated = await step(`Recreate ${label} on the replacement credential`, () =>
+            this.createPhoneNumber(recreateInput, options)
+          );
+          entry.action = 'recreated';
+          entry.currentId = recreated.id;
+          undo.push({
+            description: `Delete recreated ${label} (${recreated.id})`,
+            run: async () => {
+              await this.deletePhoneNumber(recreated.id);
+              entry.action = 'deleted';
+              entry.currentId = undefined;
+            }
+          });
+        }
+      }
+
+      await step(`Delete old credential ${oldCredentialId}`, () => this.deleteCredential(oldCredentialId, options));
+      report.success = true;
+      return report;
     } catch (error) {
-      console.error('Failed to fetch phone numbers by credential:', error);
-      return [];
+      report.error = errorMessage(error);
+      console.error(`Credential replacement failed, rolling back ${undo.length} step(s):`, error);
+
+      let rolledBack = true;
+      for (const action of undo.reverse()) {
+        try {
+          await action.run();
+          report.steps.push({ description: action.description, status: 'rolled-back' });
+        } catch (rollbackError) {
+          rolledBack = false;
+          report.steps.push({ description: action.description, status: 'rollback-failed', error: errorMessage(rollbackError) });
+        }
+      }
+      report.rolledBack = rolledBack;
+      if (rolledBack) report.newCredential = undefined;
+      return report;
     }
   }
 
-  async getCall(callId: string) {
-    return this.request(`/call/${callId}`);
+  private toPhoneNumberInput(phone: PhoneNumber, credentialId: string): CreatePhoneNumberInput {
+    if (!phone.number) {
+      throw new Error(`Phone number ${phone.id} has no number and cannot be recreated`);
+    }
+    return {
+      provider: phone.provider,
+      name: phone.name,
+      number: phone.number,
+      numberE164CheckEnabled: phone.numberE164CheckEnabled,
+      credentialId,
+      ...(phone.assistantId && { assistantId: phone.assistantId }),
+      ...(phone.server && { server: phone.server })
+    };
   }
 
-  async getAssistants() {
-    try {
-      const response = await this.request('/assistant');
-      return Array.isArray(response) ? response : [];
-    } catch (error) {
-      console.error('Failed to fetch assistants:', error);
-      return [];
-    }
+  async getCall(callId: string, options: VapiCallOptions = {}): Promise<Call> {
+    return CallSchema.parse(await this.request(`/call/${callId}`, options), 'GET /call/:id');
   }
 
-  async getCredentials() {
-    try {
-      const response = await this.request('/credential');
-      return Array.isArray(response) ? response : [];
-    } catch (error) {
-      console.error('Failed to fetch credentials:', error);
-      return [];
+  /**
+   * List calls, newest first. Pagination uses the `createdAt` of the last call on a page as
+   * an opaque cursor, which becomes `createdAtLt` for the next request.
+   *
+   * VAPI can't filter by status, so with a status filter further pages are fetched until `limit`
+   * matching calls are found (or `MAX_STATUS_FILTER_REQUESTS` requests were made).
+   */
+  async listCalls(filters: ListCallsFilters = {}, options: VapiCallOptions & { limit?: number, cursor?: string } = {}): Promise<CallPage> {
+    const { limit = DEFAULT_CALL_PAGE_SIZE, cursor, ...callOptions } = options;
+    const statuses = filters.status?.length ? new Set<string>(filters.status) : null;
+    const matched: Call[] = [];
+    let nextCursor = cursor;
+
+    for (let request = 1; ; request++) {
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (filters.assistantId) params.set('assistantId', filters.assistantId);
+      if (filters.phoneNumberId) params.set('phoneNumberId', filters.phoneNumberId);
+      if (filters.createdAfter) params.set('createdAtGt', filters.createdAfter);
+
+      // The cursor and the upper bound of the range both map to createdAtLt; use the tighter one
+      const before = [nextCursor, filters.createdBefore].filter((value): value is string => !!value).sort()[0];
+      if (before) params.set('createdAtLt', before);
+
+      const calls = CallSchema.parseList(await this.request(`/call?${params.toString()}`, callOptions), 'GET /call');
+      const last = calls[calls.length - 1];
+      nextCursor = calls.length >= limit && last?.createdAt ? last.createdAt : undefined;
+      matched.push(...(statuses ? calls.filter((call) => statuses.has(call.status)) : calls));
+
+      if (!statuses || matched.length >= limit || !nextCursor || request >= MAX_STATUS_FILTER_REQUESTS) break;
+    }
+
+    // A later request may have found more matches than fit; the next page starts after the last one kept
+    const lastKept = matched[limit - 1];
+    if (matched.length > limit && lastKept.createdAt) {
+      return { calls: matched.slice(0, limit), nextCursor: lastKept.createdAt };
     }
+    return { calls: matched, nextCursor };
+  }
+
+  async getAssistants(options: VapiCallOptions = {}): Promise<Assistant[]> {
+    return AssistantSchema.parseList(await this.request('/assistant', options), 'GET /assistant');
+  }
+
+  async getCredentials(options: VapiCallOptions = {}): Promise<Array<Credential | SipCredential>> {
+    return this.listCredentials(options);
+  }
+
+  async getSipCredentials(options: VapiCallOptions = {}): Promise<SipCredential[]> {
+    return (await this.listCredentials(options)).filter(isSipCredential);
   }
 
   // Assistant Management
-  async updateAssistant(assistantId: string, updates: any) {
-    return this.request(`/assistant/${assistantId}`, {
+  async createAssistant(assistantData: CreateAssistantInput, options: VapiCallOptions = {}): Promise<Assistant> {
+    const response = await this.request('/assistant', {
+      ...options,
+      method: 'POST',
+      body: JSON.stringify(assistantData)
+    });
+    return AssistantSchema.parse(response, 'POST /assistant');
+  }
+
+  async deleteAssistant(assistantId: string, options: VapiCallOptions = {}): Promise<void> {
+    await this.request(`/assistant/${assistantId}`, {
+      ...options,
+      method: 'DELETE'
+    });
+  }
+
+  async updateAssistant(assistantId: string, updates: AssistantUpdate, options: VapiCallOptions = {}): Promise<Assistant> {
+    const response = await this.request(`/assistant/${assistantId}`, {
+      ...options,
       method: 'PATCH',
-      body: JSON.stringify(updates)
+      body: JSON.stringify(updates),
+      // Updates set absolute values, so repeating them is harmless
+      idempotent: true
     });
+    return AssistantSchema.parse(response, 'PATCH /assistant/:id');
   }
 
-  async enableAssistantMonitoring(assistantId: string, options: { listen?: boolean, control?: boolean } = {}) {
-    const monitorPlan = {
+  async enableAssistantMonitoring(assistantId: string, options: { listen?: boolean, control?: boolean } & VapiCallOptions = {}): Promise<Assistant> {
+    const monitorPlan: MonitorPlan = {
       listenEnabled: options.listen !== false, // Default to true
       listenAuthenticationEnabled: false,
       controlEnabled: options.control !== false, // Default to true
       controlAuthenticationEnabled: false
     };
 
-    return this.updateAssistant(assistantId, { monitorPlan });
+    return this.updateAssistant(assistantId, { monitorPlan }, { signal: options.signal, timeoutMs: options.timeoutMs });
   }
 
-  async getAssistant(assistantId: string) {
-    return this.request(`/assistant/${assistantId}`);
+  async getAssistant(assistantId: string, options: VapiCallOptions = {}): Promise<Assistant> {
+    return AssistantSchema.parse(await this.request(`/assistant/${assistantId}`, options), 'GET /assistant/:id');
   }
 
-  async verifyAssistantMonitoring(assistantId: string) {
+  async verifyAssistantMonitoring(assistantId: string, options: VapiCallOptions = {}): Promise<AssistantMonitoringStatus> {
     try {
-      const assistant = await this.getAssistant(assistantId);
+      const assistant = await this.getAssistant(assistantId, options);
       const monitorPlan = assistant.monitorPlan || {};
       
       return {
@@ -287,7 +673,7 @@ class VapiService {
           listenAuth: monitorPlan.listenAuthenticationEnabled === true,
           controlAuth: monitorPlan.controlAuthenticationEnabled === true
         },
-        recommendation: this.getMonitoringRecommendation(monitorPlan)
+        recommendation: this.getMonitoringRecommendation(assistant.monitorPlan)
       };
     } catch (error) {
       console.error(`Failed to verify monitoring for assistant ${assistantId}:`, error);
@@ -295,7 +681,14 @@ class VapiService {
     }
   }
 
-  private getMonitoringRecommendation(monitorPlan: any): string {
+  private expectSipCredential(credential: Credential, endpoint: string): SipCredential {
+    if (!isSipCredential(credential)) {
+      throw new VapiValidationError('provider', '"byo-sip-trunk"', credential.provider, endpoint);
+    }
+    return credential;
+  }
+
+  private getMonitoringRecommendation(monitorPlan?: MonitorPlan): string {
     if (!monitorPlan) {
       return "Enable monitoring plan to get WebSocket URLs for real-time call monitoring";
     }
@@ -316,4 +709,17 @@ class VapiService {
   }
 }
 
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
 export const vapiService = new VapiService();
\ No newline at end of file
@@ -0,0 +1,425 @@
+// Shared VAPI domain types and the runtime schemas that validate API responses against them.
+// Schemas check the fields the dashboard relies on and keep any extra fields VAPI returns.
+
+import { VapiValidationError } from './vapi-errors';
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface MonitorPlan {
+  listenEnabled?: boolean;
+  listenAuthenticationEnabled?: boolean;
+  controlEnabled?: boolean;
+  controlAuthenticationEnabled?: boolean;
+}
+
+export interface SipGateway {
+  ip: string;
+  port?: number;
+  netmask?: number;
+  inboundEnabled?: boolean;
+  outboundEnabled?: boolean;
+}
+
+export interface Credential {
+  id: string;
+  provider: string;
+  name?: string;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface SipCredential extends Credential {
+  provider: 'byo-sip-trunk';
+  gateways: SipGateway[];
+  outboundAuthenticationPlan?: {
+    authUsername?: string;
+  };
+}
+
+export interface PhoneNumberServer {
+  url?: string;
+  secret?: string;
+  timeoutSeconds?: number;
+}
+
+export interface PhoneNumber {
+  id: string;
+  provider: string;
+  name?: string;
+  number?: string;
+  status?: string;
+  credentialId?: string;
+  numberE164CheckEnabled?: boolean;
+  /** Assistant that answers inbound calls; takes precedence over `server`. */
+  assistantId?: string;
+  /** Server that receives an `assistant-request` webhook for inbound calls when no assistant is set. */
+  server?: PhoneNumberServer;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+export interface AssistantModel {
+  provider?: string;
+  model?: string;
+  messages?: Array<{ role: string; content?: string }>;
+}
+
+export interface AssistantVoice {
+  provider?: string;
+  voiceId?: string;
+}
+
+export interface AssistantTranscriber {
+  provider?: string;
+  model?: string;
+  language?: string;
+}
+
+export interface Assistant {
+  id: string;
+  name?: string;
+  model?: AssistantModel;
+  voice?: AssistantVoice;
+  transcriber?: AssistantTranscriber;
+  firstMessage?: string;
+  serverUrl?: string;
+  monitorPlan?: MonitorPlan;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+// Known VAPI call statuses; unknown values are still accepted so new statuses don't break the UI.
+export type CallStatus = 'scheduled' | 'queued' | 'ringing' | 'in-progress' | 'forwarding' | 'ended' | (string & {});
+
+export interface CallMonitor {
+  listenUrl?: string;
+  controlUrl?: string;
+}
+
+/** Transfer target for a live call: a phone number (E.164) or a SIP URI. */
+export type TransferDestination =
+  | { type: 'number'; number: string }
+  | { type: 'sip'; sipUri: string };
+
+/** Commands accepted by a call's `monitor.controlUrl`. */
+export type CallControlCommand =
+  | { type: 'say'; content: string; endCallAfterSpoken?: boolean }
+  | { type: 'add-message'; message: { role: 'system' | 'user'; content: string }; triggerResponseEnabled?: boolean }
+  | { type: 'control'; control: 'mute-assistant' | 'unmute-assistant' }
+  | { type: 'transfer'; destination: TransferDestination; content?: string }
+  | { type: 'end-call' };
+
+export interface Call {
+  id: string;
+  status: CallStatus;
+  type?: string;
+  assistantId?: string;
+  phoneNumberId?: string;
+  customer?: {
+    number?: string;
+    name?: string;
+  };
+  monitor?: CallMonitor;
+  createdAt?: string;
+  updatedAt?: string;
+  startedAt?: string;
+  endedAt?: string;
+  cost?: number;
+  transcript?: string;
+  recordingUrl?: string;
+  summary?: string;
+  endedReason?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface ListCallsFilters {
+  assistantId?: string;
+  phoneNumberId?: string;
+  /** VAPI has no server-side status filter, so `listCalls` fetches pages until it has enough matches. */
+  status?: CallStatus[];
+  /** ISO timestamps, exclusive. */
+  createdAfter?: string;
+  createdBefore?: string;
+}
+
+export interface CallPage {
+  calls: Call[];
+  /** Pass back as `cursor` to fetch the next (older) page; undefined when there are no more calls. */
+  nextCursor?: string;
+}
+
+export type CredentialReplaceStepStatus = 'done' | 'failed' | 'rolled-back' | 'rollback-failed';
+
+export interface CredentialReplaceStep {
+  description: string;
+  status: CredentialReplaceStepStatus;
+  error?: string;
+}
+
+export interface CredentialReplaceReport {
+  success: boolean;
+  oldCredentialId: string;
+  newCredential?: SipCredential;
+  /**
+   * Phone numbers that were bound to the old credential and where they ended up. `deleted` means
+   * the number was removed to be recreated and isn't on any credential now; `rolled-back` means it
+   * is back on the old credential.
+   */
+  phoneNumbers: Array<{
+    previousId: string;
+    number?: string;
+    action: 'repointed' | 'recreated' | 'deleted' | 'rolled-back' | 'pending';
+    currentId?: string;
+  }>;
+  steps: CredentialReplaceStep[];
+  /** True when a failure was fully undone; false if some rollback step also failed. */
+  rolledBack?: boolean;
+  error?: string;
+}
+
+export interface AssistantMonitoringStatus {
+  assistantId: string;
+  assistantName?: string;
+  monitoring: {
+    configured: boolean;
+    listenEnabled: boolean;
+    controlEnabled: boolean;
+    listenAuth: boolean;
+    controlAuth: boolean;
+  };
+  recommendation: string;
+}
+
+// Request payloads
+// VAPI never returns the auth password, so it has to be sent again whenever a credential is created
+export type CreateSipCredentialInput = Omit<SipCredential, 'id' | 'createdAt' | 'updatedAt' | 'outboundAuthenticationPlan'> & {
+  outboundAuthenticationPlan?: { authUsername?: string; authPassword?: string };
+};
+
+export interface CreatePhoneNumberInput {
+  provider: string;
+  name?: string;
+  number: string;
+  numberE164CheckEnabled?: boolean;
+  credentialId?: string;
+  assistantId?: string;
+  server?: PhoneNumberServer;
+}
+
+/** PATCH body for a phone number; `null` clears the name, inbound assistant or server. */
+export type UpdatePhoneNumberInput = Partial<Omit<CreatePhoneNumberInput, 'provider' | 'name' | 'assistantId' | 'server'>> & {
+  name?: string | null;
+  assistantId?: string | null;
+  server?: PhoneNumberServer | null;
+};
+
+// A PATCH leaves absent fields as they are; these are cleared by sending `null`
+type ClearableAssistantFields = { firstMessage?: string | null; serverUrl?: string | null };
+
+export type CreateAssistantInput = Omit<Assistant, 'id' | 'createdAt' | 'updatedAt' | keyof ClearableAssistantFields> & ClearableAssistantFields & Record<string, any>;
+
+export type AssistantUpdate = Partial<Omit<Assistant, 'id' | 'createdAt' | 'updatedAt' | keyof ClearableAssistantFields>> & ClearableAssistantFields & Record<string, any>;
+
+export function isSipCredential(credential: Credential): credential is SipCredential {
+  return credential.provider === 'byo-sip-trunk';
+}
+
+// ---------------------------------------------------------------------------
+// Runtime schemas
+// ---------------------------------------------------------------------------
+
+type Context = { endpoint?: string };
+type Fields = Record<string, unknown>;
+
+export interface Schema<T> {
+  name: string;
+  /** Validate a single value; `endpoint` is only used to make error messages clearer. */
+  parse(value: unknown, endpoint?: string): T;
+  /** Validate an array of values. */
+  parseList(value: unknown, endpoint?: string): T[];
+}
+
+function fail(ctx: Context, path: string, expected: string, received: unknown): never {
+  throw new VapiValidationError(path, expected, received, ctx.endpoint);
+}
+
+function record(value: unknown, path: string, ctx: Context): Fields {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(ctx, path, 'object', value);
+  }
+  return value as Fields;
+}
+
+function string(fields: Fields, key: string, path: string, ctx: Context): string {
+  const value = fields[key];
+  if (typeof value !== 'string' || value === '') return fail(ctx, join(path, key), 'non-empty string', value);
+  return value;
+}
+
+function optional<T>(fields: Fields, key: string, type: 'string' | 'number' | 'boolean', path: string, ctx: Context): T | undefined {
+  const value = fields[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== type) return fail(ctx, join(path, key), `${type} or undefined`, value);
+  return value as T;
+}
+
+function optionalRecord<T>(fields: Fields, key: string, path: string, ctx: Context, parser: (value: Fields, path: string, ctx: Context) => T): T | undefined {
+  const value = fields[key];
+  if (value === undefined || value === null) return undefined;
+  const nested = join(path, key);
+  return parser(record(value, nested, ctx), nested, ctx);
+}
+
+function join(path: string, key: string | number) {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+function defineSchema<T>(name: string, parser: (fields: Fields, path: string, ctx: Context) => T): Schema<T> {
+  const parseAt = (value: unknown, path: string, ctx: Context) => parser(record(value, path, ctx), path, ctx);
+  return {
+    name,
+    parse: (value, endpoint) => parseAt(value, '', { endpoint }),
+    parseList: (value, endpoint) => {
+      const ctx = { endpoint };
+      if (!Array.isArray(value)) return fail(ctx, '', `array of ${name}`, value);
+      return value.map((item, index) => parseAt(item, join('', index), ctx));
+    },
+  };
+}
+
+function parseMonitorPlan(fields: Fields, path: string, ctx: Context): MonitorPlan {
+  return {
+    ...fields,
+    listenEnabled: optional(fields, 'listenEnabled', 'boolean', path, ctx),
+    listenAuthenticationEnabled: optional(fields, 'listenAuthenticationEnabled', 'boolean', path, ctx),
+    controlEnabled: optional(fields, 'controlEnabled', 'boolean', path, ctx),
+    controlAuthenticationEnabled: optional(fields, 'controlAuthenticationEnabled', 'boolean', path, ctx),
+  };
+}
+
+function parseSipGateway(fields: Fields, path: string, ctx: Context): SipGateway {
+  return {
+    ...fields,
+    ip: string(fields, 'ip', path, ctx),
+    port: optional(fields, 'port', 'number', path, ctx),
+    netmask: optional(fields, 'netmask', 'number', path, ctx),
+    inboundEnabled: optional(fields, 'inboundEnabled', 'boolean', path, ctx),
+    outboundEnabled: optional(fields, 'outboundEnabled', 'boolean', path, ctx),
+  };
+}
+
+function parseCredential(fields: Fields, path: string, ctx: Context): Credential | SipCredential {
+  const base: Credential = {
+    ...fields,
+    id: string(fields, 'id', path, ctx),
+    provider: string(fields, 'provider', path, ctx),
+    name: optional(fields, 'name', 'string', path, ctx),
+    createdAt: optional(fields, 'createdAt', 'string', path, ctx),
+    updatedAt: optional(fields, 'updatedAt', 'string', path, ctx),
+  };
+  if (!isSipCredential(base)) return base;
+
+  const gatewaysPath = join(path, 'gateways');
+  if (!Array.isArray(fields.gateways)) return fail(ctx, gatewaysPath, 'array of SipGateway', fields.gateways);
+  return {
+    ...base,
+    gateways: fields.gateways.map((gateway, index) =>
+      parseSipGateway(record(gateway, join(gatewaysPath, index), ctx), join(gatewaysPath, index), ctx)
+    ),
+    outboundAuthenticationPlan: optionalRecord(fields, 'outboundAuthenticationPlan', path, ctx, (plan, planPath) => ({
+      ...plan,
+      authUsername: optional<string>(plan, 'authUsername', 'string', planPath, ctx),
+    })),
+  };
+}
+
+function parsePhoneNumber(fields: Fields, path: string, ctx: Context): PhoneNumber {
+  return {
+    ...fields,
+    id: string(fields, 'id', path, ctx),
+    provider: string(fields, 'provider', path, ctx),
+    name: optional(fields, 'name', 'string', path, ctx),
+    number: optional(fields, 'number', 'string', path, ctx),
+    status: optional(fields, 'status', 'string', path, ctx),
+    credentialId: optional(fields, 'credentialId', 'string', path, ctx),
+    numberE164CheckEnabled: optional(fields, 'numberE164CheckEnabled', 'boolean', path, ctx),
+    assistantId: optional(fields, 'assistantId', 'string', path, ctx),
+    server: optionalRecord(fields, 'server', path, ctx, (server, serverPath) => ({
+      ...server,
+      url: optional<string>(server, 'url', 'string', serverPath, ctx),
+      secret: optional<string>(server, 'secret', 'string', serverPath, ctx),
+      timeoutSeconds: optional<number>(server, 'timeoutSeconds', 'number', serverPath, ctx),
+    })),
+    createdAt: optional(fields, 'createdAt', 'string', path, ctx),
+    updatedAt: optional(fields, 'updatedAt', 'string', path, ctx),
+  };
+}
+
+function parseAssistant(fields: Fields, path: string, ctx: Context): Assistant {
+  return {
+    ...fields,
+    id: string(fields, 'id', path, ctx),
+    name: optional(fields, 'name', 'string', path, ctx),
+    model: optionalRecord(fields, 'model', path, ctx, (model, modelPath) => ({
+      ...model,
+      provider: optional<string>(model, 'provider', 'string', modelPath, ctx),
+      model: optional<string>(model, 'model', 'string', modelPath, ctx),
+    })),
+    voice: optionalRecord(fields, 'voice', path, ctx, (voice, voicePath) => ({
+      ...voice,
+      provider: optional<string>(voice, 'provider', 'string', voicePath, ctx),
+      voiceId: optional<string>(voice, 'voiceId', 'string', voicePath, ctx),
+    })),
+    transcriber: optionalRecord(fields, 'transcriber', path, ctx, (transcriber, transcriberPath) => ({
+      ...transcriber,
+      provider: optional<string>(transcriber, 'provider', 'string', transcriberPath, ctx),
+      model: optional<string>(transcriber, 'model', 'string', transcriberPath, ctx),
+      language: optional<string>(transcriber, 'language', 'string', transcriberPath, ctx),
+    })),
+    firstMessage: optional(fields, 'firstMessage', 'string', path, ctx),
+    serverUrl: optional(fields, 'serverUrl', 'string', path, ctx),
+    monitorPlan: optionalRecord(fields, 'monitorPlan', path, ctx, parseMonitorPlan),
+    createdAt: optional(fields, 'createdAt', 'string', path, ctx),
+    updatedAt: optional(fields, 'updatedAt', 'string', path, ctx),
+  };
+}
+
+function parseCall(fields: Fields, path: string, ctx: Context): Call {
+  return {
+    ...fields,
+    id: string(fields, 'id', path, ctx),
+    status: string(fields, 'status', path, ctx),
+    type: optional(fields, 'type', 'string', path, ctx),
+    assistantId: optional(fields, 'assistantId', 'string', path, ctx),
+    phoneNumberId: optional(fields, 'phoneNumberId', 'string', path, ctx),
+    customer: optionalRecord(fields, 'customer', path, ctx, (customer, customerPath) => ({
+      ...customer,
+      number: optional<string>(customer, 'number', 'string', customerPath, ctx),
+      name: optional<string>(customer, 'name', 'string', customerPath, ctx),
+    })),
+    monitor: optionalRecord(fields, 'monitor', path, ctx, (monitor, monitorPath) => ({
+      ...monitor,
+      listenUrl: optional<string>(monitor, 'listenUrl', 'string', monitorPath, ctx),
+      controlUrl: optional<string>(monitor, 'controlUrl', 'string', monitorPath, ctx),
+    })),
+    createdAt: optional(fields, 'createdAt', 'string', path, ctx),
+    updatedAt: optional(fields, 'updatedAt', 'string', path, ctx),
+    startedAt: optional(fields, 'startedAt', 'string', path, ctx),
+    endedAt: optional(fields, 'endedAt', 'string', path, ctx),
+    cost: optional(fields, 'cost', 'number', path, ctx),
+    transcript: optional(fields, 'transcript', 'string', path, ctx),
+    recordingUrl: optional(fields, 'recordingUrl', 'string', path, ctx),
+    summary: optional(fields, 'summary', 'string', path, ctx),
+    endedReason: optional(fields, 'endedReason', 'string', path, ctx),
+    metadata: optionalRecord(fields, 'metadata', path, ctx, (metadata) => metadata),
+  };
+}
+
+export const MonitorPlanSchema = defineSchema('MonitorPlan', parseMonitorPlan);
+export const SipGatewaySchema = defineSchema('SipGateway', parseSipGateway);
+export const CredentialSchema = defineSchema('Credential', parseCredential);
+export const PhoneNumberSchema = defineSchema('PhoneNumber', parsePhoneNumber);
+export const AssistantSchema = defineSchema('Assistant', parseAssistant);
+export const CallSchema = defineSchema('Call', parseCall);
@@ -0,0 +1,169 @@
+// Authentication of incoming Server URL (webhook) requests. VAPI can authenticate a request either
+// with a shared secret sent as-is in `x-vapi-secret`, or with an HMAC-SHA256 signature of the body
+// (optionally prefixed with a timestamp). Several secrets can be active at once so they can be
+// rotated without dropping events.
+//
+// Server-only: uses `crypto`.
+
+import crypto from 'crypto';
+
+export type WebhookAuthMode = 'flag' | 'enforce';
+
+export type WebhookAuthScheme = 'hmac' | 'shared-secret';
+
+export interface WebhookAuthConfig {
+  /** Active secrets; any of them is accepted. */
+  secrets: string[];
+  /** `enforce` rejects unverified requests with 401; `flag` stores them marked unverified. */
+  mode: WebhookAuthMode;
+  /** Reject signed requests whose timestamp is further off than this, and repeats of a signature. 0 disables. */
+  replayWindowMs: number;
+}
+
+export type WebhookAuthResult =
+  | { verified: true; scheme: WebhookAuthScheme }
+  | { verified: false; reason: string };
+
+export const SHARED_SECRET_HEADER = 'x-vapi-secret';
+export const SIGNATURE_HEADERS = ['x-vapi-signature', 'x-signature'];
+export const TIMESTAMP_HEADERS = ['x-vapi-timestamp', 'x-timestamp'];
+
+// Headers that carry credentials; never stored or shown with the event
+const SENSITIVE_HEADERS = [SHARED_SECRET_HEADER, 'authorization', 'cookie'];
+
+/** Auth settings from `VAPI_WEBHOOK_*` environment variables. */
+export function getWebhookAuthConfig(): WebhookAuthConfig {
+  if (process.env.NEXT_PUBLIC_VAPI_WEBHOOK_SECRET) {
+    console.warn('[vapi-webhook] NEXT_PUBLIC_VAPI_WEBHOOK_SECRET is ignored: it is bundled into the browser. Rotate it and use VAPI_WEBHOOK_SECRETS.');
+  }
+  const secrets = [process.env.VAPI_WEBHOOK_SECRETS, process.env.VAPI_WEBHOOK_SECRET]
+    .flatMap((value) => (value || '').split(','))
+    .map((secret) => secret.trim())
+    .filter(Boolean);
+  const windowSeconds = Number(process.env.VAPI_WEBHOOK_REPLAY_WINDOW_SECONDS);
+
+  return {
+    secrets: Array.from(new Set(secrets)),
+    mode: process.env.VAPI_WEBHOOK_AUTH_MODE === 'enforce' ? 'enforce' : 'flag',
+    replayWindowMs: Number.isFinite(windowSeconds) && windowSeconds > 0 ? windowSeconds * 1000 : 0,
+  };
+}
+
+/** Compare without leaking where the strings differ; hashing first makes the lengths equal. */
+function safeEqual(a: string, b: string) {
+  const digestA = crypto.createHash('sha256').update(a).digest();
+  const digestB = crypto.createHash('sha256').update(b).digest();
+  return crypto.timingSafeEqual(digestA, digestB);
+}
+
+function firstHeader(headers: Headers, names: string[]) {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value) return value;
+  }
+  return null;
+}
+
+/** Timestamps may be Unix seconds, Unix milliseconds or ISO strings. */
+function parseTimestamp(value: string) {
+  if (/^\d+$/.test(value)) {
+    const n = Number(value);
+    return n > 1e12 ? n : n * 1000;
+  }
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/** Signatures may be hex or base64, with or without a `sha256=` prefix; a header may list several. */
+function parseSignatures(header: string) {
+  return header
+    .split(/[\s,]+/)
+    .map((part) => part.replace(/^(sha256|v1)=/, ''))
+    .filter(Boolean);
+}
+
+function matchesHmac(secret: string, signedPayload: string, signatures: string[]) {
+  const digest = crypto.createHmac('sha256', secret).update(signedPayload).digest();
+  const hex = digest.toString('hex');
+  const base64 = digest.toString('base64');
+  // Check every candidate so the time taken doesn't depend on which one matched
+  let matched = false;
+  for (const signature of signatures) {
+    if (safeEqual(signature.toLowerCase(), hex) || safeEqual(signature, base64)) matched = true;
+  }
+  return matched;
+}
+
+// Signatures accepted within the replay window, with the time they may be forgotten
+const seenSignatures = new Map<string, number>();
+
+function isReplay(signature: string, windowMs: number, now: number) {
+  seenSignatures.forEach((expiresAt, key) => {
+    if (expiresAt <= now) seenSignatures.delete(key);
+  });
+  if (seenSignatures.has(signature)) return true;
+  // Remember it for the whole span its timestamp could still pass the window check
+  seenSignatures.set(signature, now + 2 * windowMs);
+  return false;
+}
+
+/** Check a webhook request's credentials. `body` must be the raw request body. */
+export function verifyWebhookRequest(
+  headers: Headers,
+  body: string,
+  config: WebhookAuthConfig = getWebhookAuthConfig(),
+  now = Date.now(),
+): WebhookAuthResult {
+  if (config.secrets.length === 0) return { verified: false, reason: 'no webhook secret configured' };
+
+  const sharedSecret = headers.get(SHARED_SECRET_HEADER);
+  if (sharedSecret) {
+    let matched = false;
+    for (const secret of config.secrets) {
+      if (safeEqual(sharedSecret, secret)) matched = true;
+    }
+    return matched ? { verified: true, scheme: 'shared-secret' } : { verified: false, reason: `${SHARED_SECRET_HEADER} does not match` };
+  }
+
+  const signatureHeader = firstHeader(headers, SIGNATURE_HEADERS);
+  if (!signatureHeader) return { verified: false, reason: 'no signature or shared secret header' };
+  const signatures = parseSignatures(signatureHeader);
+  const timestampHeader = firstHeader(headers, TIMESTAMP_HEADERS);
+
+  if (config.replayWindowMs > 0) {
+    // With replay protection the timestamp must be present and covered by the signature
+    if (!timestampHeader) return { verified: false, reason: 'missing timestamp header' };
+    const timestamp = parseTimestamp(timestampHeader);
+    if (timestamp === null) return { verified: false, reason: 'unreadable timestamp' };
+    if (Math.abs(now - timestamp) > config.replayWindowMs) return { verified: false, reason: 'timestamp outside the replay window' };
+    const signed = `${timestampHeader}.${body}`;
+    if (!config.secrets.some((secret) => matchesHmac(secret, signed, signatures))) {
+      return { verified: false, reason: 'signature does not match' };
+    }
+    if (isReplay(signatureHeader, config.replayWindowMs, now)) return { verified: false, reason: 'signature already used' };
+    return { verified: true, scheme: 'hmac' };
+  }
+
+  const payloads = timestampHeader ? [`${timestampHeader}.${body}`, body] : [body];
+  const matched = config.secrets.some((secret) => payloads.some((payload) => matchesHmac(secret, payload, signatures)));
+  return matched ? { verified: true, scheme: 'hmac' } : { verified: false, reason: 'signature does not match' };
+}
+
+/**
+ * Headers that authenticate `body` under `secret`: an HMAC-SHA256 signature of `<timestamp>.<body>`
+ * plus the timestamp (Unix seconds), which passes `verifyWebhookRequest` with or without replay protection.
+ */
+export function signWebhookBody(secret: string, body: string, now = Date.now()) {
+  const timestamp = String(Math.floor(now / 1000));
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return { [SIGNATURE_HEADERS[0]]: signature, [TIMESTAMP_HEADERS[0]]: timestamp };
+}
+
+/** Request headers safe to store with an event: credential headers are redacted. */
+export function redactWebhookHeaders(headers: Headers) {
+  const result = Object.fromEntries(headers);
+  for (const name of SENSITIVE_HEADERS) {
+    if (name in result) result[name] = '[redacted]';
+  }
+  return result;
+}
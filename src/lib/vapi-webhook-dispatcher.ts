@@ -0,0 +1,163 @@
+// Routes VAPI server messages (`{ message: { type, call, ... } }` posted to the Server URL) to
+// TypeScript handlers and shapes their results into the reply VAPI expects. Messages without a
+// handler get the plain acknowledgement. The handlers themselves are configured in
+// `vapi-webhook-handlers.ts`.
+
+import type { Call, TransferDestination } from './vapi-types';
+
+/** A server message as sent by VAPI. Only the fields the dispatcher relies on are typed. */
+export interface ServerMessage {
+  type: string;
+  call?: Partial<Call>;
+  [key: string]: any;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Parsed from the tool call's JSON arguments; empty when they can't be read. */
+  arguments: Record<string, unknown>;
+}
+
+export type AssistantRequestResponse =
+  | { assistantId: string; assistantOverrides?: Record<string, unknown> }
+  | { assistant: Record<string, unknown> }
+  | { squadId: string }
+  /** Rejects the call; VAPI tells the caller the error. */
+  | { error: string };
+
+export type TransferDestinationResponse =
+  | { destination: TransferDestination & { message?: string } }
+  | { error: string };
+
+/** Return the tool's result (strings are sent as-is, anything else as JSON) or throw to report an error. */
+export type ToolHandler = (args: Record<string, unknown>, context: { toolCall: ToolCall; message: ServerMessage }) => unknown;
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface WebhookHandlers {
+  /** Picks the assistant for an inbound call on a number without one. */
+  assistantRequest?: (message: ServerMessage) => MaybePromise<AssistantRequestResponse>;
+  /** Picks where a `transferCall` without a fixed destination goes. */
+  transferDestinationRequest?: (message: ServerMessage) => MaybePromise<TransferDestinationResponse>;
+  /** Function tools by name, answered from `tool-calls` messages. */
+  tools?: Record<string, ToolHandler>;
+  /** Any other message type whose reply should come from code; the returned object is sent as-is. */
+  other?: Record<string, (message: ServerMessage) => MaybePromise<Record<string, unknown>>>;
+}
+
+export interface DispatchResult {
+  /** `message.type`, when the body is a server message. */
+  eventType?: string;
+  /** Whether a handler produced the reply. */
+  handled: boolean;
+  /** JSON body to send back to VAPI. */
+  response: Record<string, unknown>;
+}
+
+// VAPI gives up on a server URL after a few seconds; answer with an error before it does
+const HANDLER_TIMEOUT_MS = 7000;
+
+export const ACKNOWLEDGEMENT = { received: true };
+
+/** Thrown (and reported to VAPI) when a handler doesn't answer within `HANDLER_TIMEOUT_MS`. */
+export class WebhookHandlerTimeoutError extends Error {
+  readonly eventType: string;
+
+  constructor(eventType: string) {
+    super(`${eventType} handler did not answer within ${HANDLER_TIMEOUT_MS}ms`);
+    this.name = 'WebhookHandlerTimeoutError';
+    this.eventType = eventType;
+  }
+}
+
+/** The server message in a parsed webhook body, if it is one. */
+export function getServerMessage(body: unknown): ServerMessage | null {
+  const message = (body as { message?: unknown } | null)?.message;
+  if (!message || typeof message !== 'object' || typeof (message as ServerMessage).type !== 'string') return null;
+  return message as ServerMessage;
+}
+
+function withTimeout<T>(eventType: string, work: () => MaybePromise<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new WebhookHandlerTimeoutError(eventType)), HANDLER_TIMEOUT_MS);
+    Promise.resolve()
+      .then(work)
+      .then(resolve, reject)
+      .finally(() => clearTimeout(timer));
+  });
+}
+
+function errorMessage(err: unknown) {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Tool calls of a `tool-calls` message, from `toolCallList` or the older `toolWithToolCallList`. */
+export function getToolCalls(message: ServerMessage): ToolCall[] {
+  const list: any[] = Array.isArray(message.toolCallList)
+    ? message.toolCallList
+    : Array.isArray(message.toolWithToolCallList)
+      ? message.toolWithToolCallList.map((tool: any) => tool?.toolCall)
+      : [];
+
+  return list.filter(Boolean).map((call) => {
+    const fn = call.function ?? {};
+    let args: unknown = fn.arguments ?? call.arguments ?? {};
+    if (typeof args === 'string') {
+      try {
+        args = JSON.parse(args);
+      } catch {
+        args = {};
+      }
+    }
+    return {
+      id: String(call.id ?? ''),
+      name: String(fn.name ?? call.name ?? ''),
+      arguments: args && typeof args === 'object' ? (args as Record<string, unknown>) : {},
+    };
+  });
+}
+
+async function runTools(message: ServerMessage, tools: Record<string, ToolHandler>) {
+  const toolCalls = getToolCalls(message);
+  const results = await Promise.all(toolCalls.map(async (toolCall) => {
+    const handler = tools[toolCall.name];
+    if (!handler) return { toolCallId: toolCall.id, error: `No handler for tool "${toolCall.name}"` };
+    try {
+      const result = await withTimeout(`tool ${toolCall.name}`, () => handler(toolCall.arguments, { toolCall, message }));
+      return { toolCallId: toolCall.id, result: typeof result === 'string' ? result : JSON.stringify(result ?? null) };
+    } catch (err) {
+      console.error(`[vapi-webhook] tool ${toolCall.name} failed:`, err);
+      return { toolCallId: toolCall.id, error: errorMessage(err) };
+    }
+  }));
+  return { results };
+}
+
+/**
+ * Reply to a parsed webhook body. Handler failures don't throw: they become `{ error }` replies (or
+ * per-tool errors for `tool-calls`) so VAPI can tell the caller instead of retrying into a timeout.
+ */
+export async function dispatchWebhookMessage(body: unknown, handlers: WebhookHandlers): Promise<DispatchResult> {
+  const message = getServerMessage(body);
+  if (!message) return { handled: false, response: ACKNOWLEDGEMENT };
+  const eventType = message.type;
+
+  try {
+    if (eventType === 'tool-calls' && handlers.tools) {
+      return { eventType, handled: true, response: await runTools(message, handlers.tools) };
+    }
+    const handler: ((message: ServerMessage) => MaybePromise<Record<string, unknown>>) | undefined =
+      eventType === 'assistant-request' ? handlers.assistantRequest
+        : eventType === 'transfer-destination-request' ? handlers.transferDestinationRequest
+          : handlers.other?.[eventType];
+    if (handler) {
+      return { eventType, handled: true, response: await withTimeout(eventType, () => handler(message)) };
+    }
+  } catch (err) {
+    console.error(`[vapi-webhook] ${eventType} handler failed:`, err);
+    return { eventType, handled: true, response: { error: errorMessage(err) } };
+  }
+
+  return { eventType, handled: false, response: ACKNOWLEDGEMENT };
+}
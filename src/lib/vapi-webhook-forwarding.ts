@@ -0,0 +1,295 @@
+// Fan-out of received webhooks to downstream services. Each destination in
+// `VAPI_WEBHOOK_FORWARD_DESTINATIONS` gets the events whose type it asks for. Failed deliveries are
+// retried with exponential backoff; those that still fail (or are rejected outright) end up in the
+// dead-letter list, from where they can be retried by hand.
+//
+// Server-only: deliveries and their retry timers live in the server process.
+
+import { getWebhookAuthConfig, signWebhookBody } from './vapi-webhook-auth';
+
+export interface ForwardDestination {
+  name: string;
+  url: string;
+  /** Event types to forward (e.g. `end-of-call-report`); empty or absent forwards everything. */
+  eventTypes?: string[];
+  /**
+   * Sign forwarded requests like VAPI does (`x-vapi-signature` / `x-vapi-timestamp`). Only verified
+   * events are signed, so a forged request never reaches the destination with a valid signature.
+   */
+  secret?: string;
+  /** Extra request headers, e.g. an API key for the downstream service. */
+  headers?: Record<string, string>;
+  /** Skip events that failed webhook verification. Defaults to true when webhook secrets are configured. */
+  verifiedOnly?: boolean;
+}
+
+export type DeliveryState = 'pending' | 'retrying' | 'delivered' | 'dead';
+
+export interface DeliveryAttempt {
+  at: string;
+  status?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  eventId?: string;
+  eventType?: string;
+  destination: string;
+  url: string;
+  state: DeliveryState;
+  attempts: DeliveryAttempt[];
+  /** When the next retry is due (state `retrying`). */
+  nextAttemptAt?: string;
+  createdAt: string;
+}
+
+/** What the destinations are sent: the body exactly as VAPI posted it. */
+export interface ForwardedEvent {
+  eventId?: string;
+  eventType?: string;
+  body: string;
+  contentType: string;
+  verified: boolean;
+}
+
+export interface DeliveryStats {
+  destination: string;
+  url: string;
+  eventTypes: string[];
+  pending: number;
+  delivered: number;
+  dead: number;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60000;
+// Finished deliveries beyond this many are forgotten, oldest first
+const MAX_DELIVERIES = 500;
+// Headers that identify forwarded requests to the destination
+const FORWARDED_EVENT_HEADER = 'x-vapi-forwarded-event';
+const VERIFIED_HEADER = 'x-vapi-verified';
+
+interface DeliveryJob {
+  delivery: WebhookDelivery;
+  destination: ForwardDestination;
+  event: ForwardedEvent;
+  /** Attempts since the delivery was (re)started; the retry limit applies per round. */
+  roundAttempts: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// Kept on globalThis like the webhook store, so the webhook and deliveries routes share one queue
+const shared = globalThis as typeof globalThis & { __vapiWebhookDeliveries?: DeliveryJob[] };
+const jobs = (shared.__vapiWebhookDeliveries ??= []);
+
+let warnedAboutConfig = false;
+
+/** Destinations from `VAPI_WEBHOOK_FORWARD_DESTINATIONS` (a JSON array); invalid entries are skipped. */
+export function getForwardDestinations(): ForwardDestination[] {
+  const value = process.env.VAPI_WEBHOOK_FORWARD_DESTINATIONS;
+  if (!value) return [];
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    if (!warnedAboutConfig) console.warn('[vapi-webhook] VAPI_WEBHOOK_FORWARD_DESTINATIONS is not valid JSON; forwarding is off');
+    warnedAboutConfig = true;
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+
+  // With secrets configured, unverified requests are likely forged; don't pass them on unless asked to
+  const hasSecrets = getWebhookAuthConfig().secrets.length > 0;
+  const destinations: ForwardDestination[] = [];
+  parsed.forEach((entry, index) => {
+    const url = parseHttpUrl(entry?.url);
+    if (!url) {
+      if (!warnedAboutConfig) console.warn(`[vapi-webhook] forward destination ${index} has no valid http(s) url; skipping it`);
+      return;
+    }
+    destinations.push({
+      name: typeof entry.name === 'string' && entry.name ? entry.name : url.host,
+      url: url.toString(),
+      eventTypes: Array.isArray(entry.eventTypes) ? entry.eventTypes.filter((t: unknown) => typeof t === 'string') : undefined,
+      secret: typeof entry.secret === 'string' ? entry.secret : undefined,
+      headers: entry.headers && typeof entry.headers === 'object' ? entry.headers : undefined,
+      verifiedOnly: typeof entry.verifiedOnly === 'boolean' ? entry.verifiedOnly : hasSecrets,
+    });
+  });
+  // Read on every webhook; warn about a bad configuration only once
+  warnedAboutConfig = true;
+  return destinations;
+}
+
+function parseHttpUrl(value: unknown) {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function getMaxAttempts() {
+  const value = Number(process.env.VAPI_WEBHOOK_FORWARD_MAX_ATTEMPTS);
+  return Number.isInteger(value) && value > 0 ? value : 5;
+}
+
+function wantsEvent(destination: ForwardDestination, event: ForwardedEvent) {
+  if (destination.verifiedOnly && !event.verified) return false;
+  const types = destination.eventTypes ?? [];
+  return types.length === 0 || types.includes('*') || (event.eventType !== undefined && types.includes(event.eventType));
+}
+
+/** Exponential backoff with ±20% jitter; `Retry-After` wins when the destination sends one. */
+function backoffMs(attempt: number, retryAfterMs?: number) {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, MAX_BACKOFF_MS);
+  const base = Math.min(BASE_BACKOFF_MS * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+}
+
+function parseRetryAfter(value: string | null) {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function prune() {
+  for (let i = jobs.length - 1; i >= 0 && jobs.length > MAX_DELIVERIES; i--) {
+    const state = jobs[i].delivery.state;
+    if (state === 'delivered' || state === 'dead') jobs.splice(i, 1);
+  }
+}
+
+async function attempt(job: DeliveryJob): Promise<void> {
+  const { delivery, destination, event } = job;
+  job.timer = undefined;
+  job.roundAttempts++;
+  const startedAt = Date.now();
+  const headers: Record<string, string> = {
+    ...destination.headers,
+    'Content-Type': event.contentType || 'application/json',
+    [VERIFIED_HEADER]: String(event.verified),
+  };
+  if (event.eventId) headers[FORWARDED_EVENT_HEADER] = event.eventId;
+  // Signing an unverified body would vouch for whatever the sender made up
+  if (destination.secret && event.verified) Object.assign(headers, signWebhookBody(destination.secret, event.body));
+
+  let retryable = true;
+  let retryAfterMs: number | undefined;
+  try {
+    const res = await fetch(destination.url, {
+      method: 'POST',
+      headers,
+      body: event.body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    // Read the body either way so the connection is released; keep the start of it for failures
+    const text = await res.text().catch(() => '');
+    delivery.attempts.push({
+      at: new Date(startedAt).toISOString(),
+      status: res.status,
+      error: res.ok ? undefined : text.slice(0, 200) || res.statusText,
+      durationMs: Date.now() - startedAt,
+    });
+    if (res.ok) {
+      delivery.state = 'delivered';
+      delivery.nextAttemptAt = undefined;
+      // The body is only needed for retries
+      job.event = { ...event, body: '' };
+      return;
+    }
+    // Other client errors mean the request itself is wrong; sending it again won't help
+    retryable = res.status >= 500 || res.status === 408 || res.status === 429;
+    retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+  } catch (err) {
+    const error = err instanceof Error && err.name === 'TimeoutError' ? `no response within ${REQUEST_TIMEOUT_MS}ms` : String(err);
+    delivery.attempts.push({ at: new Date(startedAt).toISOString(), error, durationMs: Date.now() - startedAt });
+  }
+
+  if (retryable && job.roundAttempts < getMaxAttempts()) {
+    const delay = backoffMs(job.roundAttempts, retryAfterMs);
+    delivery.state = 'retrying';
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    job.timer = setTimeout(() => attempt(job), delay);
+    return;
+  }
+  delivery.state = 'dead';
+  delivery.nextAttemptAt = undefined;
+  console.warn(`[vapi-webhook] delivery to ${destination.name} failed for good:`, delivery.eventId, delivery.attempts[delivery.attempts.length - 1]);
+}
+
+/**
+ * Send an event to every destination that wants it. Resolves once each destination has had its first
+ * attempt; retries continue in the background.
+ */
+export async function forwardWebhookEvent(event: ForwardedEvent) {
+  const destinations = getForwardDestinations().filter((destination) => wantsEvent(destination, event));
+  const created = destinations.map((destination) => {
+    const job: DeliveryJob = {
+      delivery: {
+        id: Math.random().toString(36).substring(2, 9),
+        eventId: event.eventId,
+        eventType: event.eventType,
+        destination: destination.name,
+        url: destination.url,
+        state: 'pending',
+        attempts: [],
+        createdAt: new Date().toISOString(),
+      },
+      destination,
+      event,
+      roundAttempts: 0,
+    };
+    jobs.unshift(job);
+    return job;
+  });
+  prune();
+  await Promise.all(created.map(attempt));
+}
+
+/** Deliveries newest first; `state` narrows them, e.g. `dead` for the dead-letter list. */
+export function listWebhookDeliveries(state?: DeliveryState): WebhookDelivery[] {
+  return jobs.filter((job) => !state || job.delivery.state === state).map((job) => ({ ...job.delivery }));
+}
+
+/** Delivery counts per configured destination. */
+export function getDeliveryStats(): DeliveryStats[] {
+  return getForwardDestinations().map((destination) => {
+    const mine = jobs.filter((job) => job.delivery.destination === destination.name);
+    const count = (...states: DeliveryState[]) => mine.filter((job) => states.includes(job.delivery.state)).length;
+    return {
+      destination: destination.name,
+      url: destination.url,
+      eventTypes: destination.eventTypes ?? [],
+      pending: count('pending', 'retrying'),
+      delivered: count('delivered'),
+      dead: count('dead'),
+    };
+  });
+}
+
+/** Start a dead-lettered delivery over with a fresh set of attempts. Returns false if there is no such dead letter. */
+export function retryWebhookDelivery(id: string) {
+  const job = jobs.find((j) => j.delivery.id === id);
+  if (!job || job.delivery.state !== 'dead') return false;
+  job.delivery.state = 'pending';
+  job.roundAttempts = 0;
+  // Fire and forget: the caller polls the delivery list for the outcome
+  attempt(job);
+  return true;
+}
+
+/** Remove a dead letter from the list. */
+export function dismissWebhookDelivery(id: string) {
+  const index = jobs.findIndex((j) => j.delivery.id === id && j.delivery.state === 'dead');
+  if (index < 0) return false;
+  jobs.splice(index, 1);
+  return true;
+}
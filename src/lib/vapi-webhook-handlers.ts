@@ -0,0 +1,62 @@
+// The handlers `/api/vapi-webhook` answers server messages with. Edit this file to add tools or
+// change how assistants and transfer destinations are picked; the defaults below are driven by
+// environment variables so the common cases need no code.
+
+import type { AssistantRequestResponse, ServerMessage, ToolHandler, TransferDestinationResponse, WebhookHandlers } from './vapi-webhook-dispatcher';
+
+/**
+ * Function tools answered from `tool-calls` messages, by the tool's function name. Add an entry
+ * here for every function tool whose server URL points at this app.
+ */
+const TOOLS: Record<string, ToolHandler> = {
+  // Example tool: lets the assistant tell the time in a given IANA time zone
+  get_current_time: (args) => {
+    const timeZone = typeof args.timeZone === 'string' ? args.timeZone : 'UTC';
+    return new Date().toLocaleString('en-US', { timeZone, dateStyle: 'full', timeStyle: 'short' });
+  },
+};
+
+function readJsonMap(name: string): Record<string, string> {
+  const value = process.env[name];
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.warn(`[vapi-webhook] ${name} is not valid JSON; ignoring it`);
+    return {};
+  }
+}
+
+/**
+ * Picks the assistant for an inbound call: `VAPI_WEBHOOK_ASSISTANT_BY_NUMBER` maps the called
+ * number (E.164) or its phone number ID to an assistant ID, `VAPI_WEBHOOK_ASSISTANT_ID` is the fallback.
+ */
+function assistantRequest(message: ServerMessage): AssistantRequestResponse {
+  const routes = readJsonMap('VAPI_WEBHOOK_ASSISTANT_BY_NUMBER');
+  const number: string | undefined = message.phoneNumber?.number;
+  const phoneNumberId = message.phoneNumber?.id ?? message.call?.phoneNumberId;
+  const assistantId =
+    (number && routes[number]) || (phoneNumberId && routes[phoneNumberId]) || process.env.VAPI_WEBHOOK_ASSISTANT_ID;
+  if (!assistantId) return { error: 'No assistant is configured for this number' };
+  return { assistantId };
+}
+
+/** Sends `transferCall` requests without a destination to `VAPI_WEBHOOK_TRANSFER_NUMBER` or `..._SIP_URI`. */
+function transferDestinationRequest(): TransferDestinationResponse {
+  const message = process.env.VAPI_WEBHOOK_TRANSFER_MESSAGE || undefined;
+  if (process.env.VAPI_WEBHOOK_TRANSFER_NUMBER) {
+    return { destination: { type: 'number', number: process.env.VAPI_WEBHOOK_TRANSFER_NUMBER, message } };
+  }
+  if (process.env.VAPI_WEBHOOK_TRANSFER_SIP_URI) {
+    return { destination: { type: 'sip', sipUri: process.env.VAPI_WEBHOOK_TRANSFER_SIP_URI, message } };
+  }
+  return { error: 'No transfer destination is configured' };
+}
+
+export function getWebhookHandlers(): WebhookHandlers {
+  return {
+    assistantRequest,
+    transferDestinationRequest,
+    tools: TOOLS,
+  };
+}
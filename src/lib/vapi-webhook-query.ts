@@ -0,0 +1,145 @@
+// Filtering and cursor pagination of stored webhook events. Shared by the storage backends, the
+// webhook routes (query string <-> `WebhookEventQuery`) and the Server Webhook Monitor.
+
+import type { WebhookEvent } from './vapi-webhook-storage';
+
+export interface WebhookEventQuery {
+  /** Server message type, e.g. `status-update`. */
+  eventType?: string;
+  callId?: string;
+  /** Customer or VAPI phone number (digits are compared, so formatting doesn't matter) or phone number ID. */
+  phoneNumber?: string;
+  verified?: boolean;
+  /** Only events received after this time (ISO). */
+  since?: string;
+  /** Only events received before this time (ISO). */
+  until?: string;
+  /** Case-insensitive text searched in the payload and headers. */
+  text?: string;
+  /** `nextCursor` of the previous page. */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface WebhookEventPage {
+  /** Newest first. */
+  events: WebhookEvent[];
+  /** Pass as `cursor` to get the next (older) page; absent on the last page. */
+  nextCursor?: string;
+}
+
+export const DEFAULT_WEBHOOK_PAGE_SIZE = 100;
+export const MAX_WEBHOOK_PAGE_SIZE = 200;
+
+/** The VAPI server message in a stored event (`{ message: { type, call, ... } }` body), if any. */
+export function getWebhookMessage(evt: WebhookEvent): Record<string, any> | undefined {
+  const message = evt.payload?.payload?.message;
+  return message && typeof message === 'object' ? message : undefined;
+}
+
+/**
+ * The request body of a stored event as text: the raw body when it was kept, otherwise JSON bodies
+ * are re-serialized (events stored before raw bodies were kept).
+ */
+export function getWebhookBody(evt: WebhookEvent): string {
+  if (typeof evt.rawBody === 'string') return evt.rawBody;
+  const body = evt.payload?.payload;
+  if (body && typeof body === 'object' && Object.keys(body).length === 1 && typeof body.raw === 'string') return body.raw;
+  return JSON.stringify(body ?? null);
+}
+
+export function getWebhookCallId(evt: WebhookEvent): string | undefined {
+  const call = getWebhookMessage(evt)?.call;
+  return typeof call?.id === 'string' ? call.id : undefined;
+}
+
+/** Cursor pointing just past `evt`; pages are ordered by receive time, then ID. */
+export function webhookCursor(evt: WebhookEvent) {
+  return `${evt.receivedAt}|${evt.id}`;
+}
+
+function compareNewestFirst(a: WebhookEvent, b: WebhookEvent) {
+  if (a.receivedAt !== b.receivedAt) return a.receivedAt < b.receivedAt ? 1 : -1;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
+
+function isBeforeCursor(evt: WebhookEvent, cursor: string) {
+  const separator = cursor.lastIndexOf('|');
+  const receivedAt = cursor.slice(0, separator);
+  const id = cursor.slice(separator + 1);
+  return evt.receivedAt < receivedAt || (evt.receivedAt === receivedAt && evt.id < id);
+}
+
+const digitsOf = (value: unknown) => (typeof value === 'string' ? value.replace(/\D/g, '') : '');
+
+function matchesPhoneNumber(evt: WebhookEvent, query: string) {
+  const message = getWebhookMessage(evt);
+  if (!message) return false;
+  const ids = [message.call?.phoneNumberId, message.phoneNumber?.id];
+  if (ids.includes(query)) return true;
+  const digits = digitsOf(query);
+  if (!digits) return false;
+  return [message.call?.customer?.number, message.customer?.number, message.phoneNumber?.number]
+    .some((number) => digitsOf(number).includes(digits));
+}
+
+/** Whether an event passes the query's filters (cursor and limit are not considered). */
+export function matchesWebhookQuery(evt: WebhookEvent, query: WebhookEventQuery) {
+  if (query.eventType && (evt.eventType ?? getWebhookMessage(evt)?.type) !== query.eventType) return false;
+  if (query.callId && getWebhookCallId(evt) !== query.callId) return false;
+  if (query.verified !== undefined && Boolean(evt.verified) !== query.verified) return false;
+  if (query.since && evt.receivedAt <= new Date(query.since).toISOString()) return false;
+  if (query.until && evt.receivedAt >= new Date(query.until).toISOString()) return false;
+  if (query.phoneNumber && !matchesPhoneNumber(evt, query.phoneNumber)) return false;
+  if (query.text && !JSON.stringify(evt.payload).toLowerCase().includes(query.text.toLowerCase())) return false;
+  return true;
+}
+
+/** Filter and paginate events held in memory; used by backends that can't query natively. */
+export function queryWebhookEvents(events: WebhookEvent[], query: WebhookEventQuery): WebhookEventPage {
+  const limit = Math.max(1, query.limit ?? DEFAULT_WEBHOOK_PAGE_SIZE);
+  const matched = [...events]
+    .sort(compareNewestFirst)
+    .filter((evt) => (!query.cursor || isBeforeCursor(evt, query.cursor)) && matchesWebhookQuery(evt, query));
+  const page = matched.slice(0, limit);
+  return {
+    events: page,
+    nextCursor: matched.length > limit ? webhookCursor(page[page.length - 1]) : undefined,
+  };
+}
+
+function validIso(value: string | null) {
+  return value && !Number.isNaN(Date.parse(value)) ? new Date(value).toISOString() : undefined;
+}
+
+/** Query from `GET /api/vapi-webhook` search params. Invalid values are ignored. */
+export function parseWebhookQuery(params: URLSearchParams): WebhookEventQuery {
+  const limit = Number(params.get('limit'));
+  const verified = params.get('verified');
+  return {
+    eventType: params.get('eventType') || undefined,
+    callId: params.get('callId') || undefined,
+    phoneNumber: params.get('phoneNumber') || undefined,
+    verified: verified === 'true' ? true : verified === 'false' ? false : undefined,
+    since: validIso(params.get('since')),
+    until: validIso(params.get('until')),
+    text: params.get('q') || undefined,
+    cursor: params.get('cursor') || undefined,
+    limit: limit > 0 ? Math.min(MAX_WEBHOOK_PAGE_SIZE, Math.floor(limit)) : DEFAULT_WEBHOOK_PAGE_SIZE,
+  };
+}
+
+/** Search params for a query; the inverse of `parseWebhookQuery`. */
+export function webhookQueryParams(query: WebhookEventQuery) {
+  const params = new URLSearchParams();
+  if (query.eventType) params.set('eventType', query.eventType);
+  if (query.callId) params.set('callId', query.callId);
+  if (query.phoneNumber) params.set('phoneNumber', query.phoneNumber);
+  if (query.verified !== undefined) params.set('verified', String(query.verified));
+  if (query.since) params.set('since', query.since);
+  if (query.until) params.set('until', query.until);
+  if (query.text) params.set('q', query.text);
+  if (query.cursor) params.set('cursor', query.cursor);
+  if (query.limit) params.set('limit', String(query.limit));
+  return params;
+}
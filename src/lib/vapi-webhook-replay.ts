@@ -0,0 +1,168 @@
+// Re-delivery of stored webhook events, e.g. after fixing a downstream consumer. An event can be
+// replayed against this app's own handlers (the dispatcher, without storing it again) or POSTed to
+// one of the targets in `VAPI_WEBHOOK_REPLAY_TARGETS`. Each attempt is kept as a `WebhookReplay`.
+//
+// Server-only: signs with `vapi-webhook-auth`.
+
+import { getWebhookAuthConfig, SIGNATURE_HEADERS, signWebhookBody, TIMESTAMP_HEADERS } from './vapi-webhook-auth';
+import { dispatchWebhookMessage } from './vapi-webhook-dispatcher';
+import { getWebhookHandlers } from './vapi-webhook-handlers';
+import { getWebhookBody } from './vapi-webhook-query';
+import type { WebhookEvent } from './vapi-webhook-storage';
+
+/** `local` runs the app's own handlers; anything else is one of the configured target URLs. */
+export type ReplayTarget = 'local' | string;
+
+export interface ReplayOptions {
+  target: ReplayTarget;
+  /** Sign the (possibly edited) body with the first secret in `VAPI_WEBHOOK_SECRETS`. */
+  resign?: boolean;
+  /** Edited request bodies by event ID; events without one are sent as stored. */
+  bodies?: Record<string, string>;
+}
+
+export interface WebhookReplay {
+  id: string;
+  eventId: string;
+  eventType?: string;
+  target: ReplayTarget;
+  startedAt: string;
+  durationMs: number;
+  /** HTTP status of the target's response (200 for local handlers). */
+  status?: number;
+  ok: boolean;
+  error?: string;
+  /** Start of the response body. */
+  response?: string;
+  resigned: boolean;
+  edited: boolean;
+}
+
+/** Thrown for replay requests that can't be carried out at all (unknown target, no secret to sign with). */
+export class WebhookReplayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookReplayError';
+  }
+}
+
+const MAX_REPLAYS = 200;
+const REPLAY_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_CHARS = 2000;
+// Sent with every replayed request so consumers can tell re-deliveries apart
+const REPLAY_OF_HEADER = 'x-vapi-replay-of';
+// Original headers forwarded when the raw body is replayed unchanged and not re-signed, so the original signature still applies
+const FORWARDED_HEADERS = [...SIGNATURE_HEADERS, ...TIMESTAMP_HEADERS];
+
+// Kept on globalThis like the webhook store so every route sees the same history
+const shared = globalThis as typeof globalThis & { __vapiWebhookReplays?: WebhookReplay[] };
+const replays = (shared.__vapiWebhookReplays ??= []);
+
+/** Target URLs from `VAPI_WEBHOOK_REPLAY_TARGETS` (comma-separated http(s) URLs). */
+export function getReplayTargets() {
+  return (process.env.VAPI_WEBHOOK_REPLAY_TARGETS || '')
+    .split(',')
+    .map((value) => value.trim())
+    .filter((value) => {
+      if (!value) return false;
+      try {
+        return ['http:', 'https:'].includes(new URL(value).protocol);
+      } catch {
+        console.warn('[vapi-webhook] ignoring invalid replay target:', value);
+        return false;
+      }
+    });
+}
+
+/** Past replays, newest first. */
+export function listWebhookReplays() {
+  return replays.slice();
+}
+
+function record(replay: WebhookReplay) {
+  replays.unshift(replay);
+  if (replays.length > MAX_REPLAYS) replays.length = MAX_REPLAYS;
+  return replay;
+}
+
+async function deliver(evt: WebhookEvent, body: string, options: ReplayOptions, secret: string | undefined) {
+  if (options.target === 'local') {
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      // Not JSON: the dispatcher acknowledges it like any unknown message
+    }
+    const { response } = await dispatchWebhookMessage(parsed, getWebhookHandlers());
+    return { status: 200, ok: true, response: JSON.stringify(response) };
+  }
+
+  const headers: Record<string, string> = {
+    'Content-Type': evt.contentType || 'application/json',
+    [REPLAY_OF_HEADER]: evt.id,
+  };
+  if (secret) {
+    Object.assign(headers, signWebhookBody(secret, body));
+  } else if (typeof evt.rawBody === 'string' && options.bodies?.[evt.id] === undefined) {
+    const original = evt.payload?.receivedHeaders ?? {};
+    FORWARDED_HEADERS.forEach((name) => {
+      if (typeof original[name] === 'string') headers[name] = original[name];
+    });
+  }
+
+  const res = await fetch(options.target, {
+    method: 'POST',
+    headers,
+    body,
+    signal: AbortSignal.timeout(REPLAY_TIMEOUT_MS),
+  });
+  const text = await res.text();
+  return { status: res.status, ok: res.ok, response: text.slice(0, MAX_RESPONSE_CHARS) };
+}
+
+/**
+ * Replay events one after another, in the order given, and record each attempt. Delivery failures
+ * are recorded rather than thrown; only an unusable request throws `WebhookReplayError`.
+ */
+export async function replayWebhookEvents(events: WebhookEvent[], options: ReplayOptions): Promise<WebhookReplay[]> {
+  if (options.target !== 'local' && !getReplayTargets().includes(options.target)) {
+    throw new WebhookReplayError('target is not listed in VAPI_WEBHOOK_REPLAY_TARGETS');
+  }
+  // Local replays skip authentication, so there is nothing to sign
+  const resign = Boolean(options.resign) && options.target !== 'local';
+  const authConfig = getWebhookAuthConfig();
+  const secret = resign ? authConfig.secrets[0] : undefined;
+  if (resign && !secret) throw new WebhookReplayError('no webhook secret configured to re-sign with');
+  // Like the webhook route, only run the handlers on payloads VAPI is known to have sent
+  const trustAll = authConfig.secrets.length === 0;
+
+  const results: WebhookReplay[] = [];
+  for (const evt of events) {
+    const edited = options.bodies?.[evt.id];
+    const body = edited ?? getWebhookBody(evt);
+    const startedAt = Date.now();
+    const base = {
+      id: Math.random().toString(36).substring(2, 9),
+      eventId: evt.id,
+      eventType: evt.eventType,
+      target: options.target,
+      startedAt: new Date(startedAt).toISOString(),
+      resigned: resign,
+      edited: edited !== undefined,
+    };
+    if (options.target === 'local' && !trustAll && (!evt.verified || edited !== undefined)) {
+      const error = evt.verified ? 'edited bodies are not run through the handlers' : 'unverified events are not run through the handlers';
+      results.push(record({ ...base, ok: false, error, durationMs: 0 }));
+      continue;
+    }
+    try {
+      const outcome = await deliver(evt, body, options, secret);
+      results.push(record({ ...base, ...outcome, durationMs: Date.now() - startedAt }));
+    } catch (err) {
+      console.error('[vapi-webhook] replay failed:', evt.id, err);
+      const error = err instanceof Error && err.name === 'TimeoutError' ? `no response within ${REPLAY_TIMEOUT_MS}ms` : String(err);
+      results.push(record({ ...base, ok: false, error, durationMs: Date.now() - startedAt }));
+    }
+  }
+  return results;
+}
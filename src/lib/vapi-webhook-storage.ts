@@ -0,0 +1,180 @@
+// Storage backends for received webhook events. `vapi-webhook-store.ts` picks one from the
+// environment; anything implementing `WebhookStorage` can be plugged in with `setWebhookStorage`.
+//
+// Server-only: the file backend uses `fs`.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { WebhookAuthScheme } from './vapi-webhook-auth';
+import { queryWebhookEvents, type WebhookEventPage, type WebhookEventQuery } from './vapi-webhook-query';
+
+export type WebhookEvent = {
+  id: string;
+  receivedAt: string; // ISO
+  // payload will contain either parsed JSON in `parsed` or raw text in `raw`.
+  payload: any;
+  contentType?: string;
+  size?: number; // bytes/characters of the raw body
+  rawBody?: string; // request body exactly as received, so replays still match the original signature
+  verified?: boolean; // optional signature verification result
+  authScheme?: WebhookAuthScheme; // how a verified request authenticated
+  authError?: string; // why verification failed
+  eventType?: string; // optional convenience field extracted from payload
+  reply?: Record<string, unknown>; // body sent back to VAPI when a handler answered the message
+};
+
+export interface WebhookRetention {
+  /** Keep at most this many events (newest win). */
+  maxEvents: number;
+  /** Drop events older than this; 0 keeps events regardless of age. */
+  maxAgeMs: number;
+}
+
+export interface WebhookStorage {
+  /** Save a new event; retention is applied by the backend. */
+  push(event: WebhookEvent): Promise<void>;
+  /** One page of the events matching the query, newest first. */
+  query(query: WebhookEventQuery): Promise<WebhookEventPage>;
+  clear(): Promise<void>;
+}
+
+export const DEFAULT_WEBHOOK_RETENTION: WebhookRetention = { maxEvents: 200, maxAgeMs: 0 };
+
+/** Apply retention to events sorted newest first. */
+function retain(events: WebhookEvent[], retention: WebhookRetention, now = Date.now()) {
+  const kept = retention.maxAgeMs > 0
+    ? events.filter((e) => now - Date.parse(e.receivedAt) <= retention.maxAgeMs)
+    : events;
+  return kept.slice(0, retention.maxEvents);
+}
+
+/** Events live in the server process: lost on restart and not shared between instances. */
+export class MemoryWebhookStorage implements WebhookStorage {
+  private events: WebhookEvent[] = [];
+
+  constructor(private readonly retention: WebhookRetention = DEFAULT_WEBHOOK_RETENTION) {}
+
+  async push(event: WebhookEvent) {
+    this.events = retain([event, ...this.events], this.retention);
+  }
+
+  async query(query: WebhookEventQuery) {
+    this.events = retain(this.events, this.retention);
+    return queryWebhookEvents(this.events, query);
+  }
+
+  async clear() {
+    this.events = [];
+  }
+}
+
+/**
+ * Events are appended to a JSON Lines file, so they survive restarts. Appends are cheap; the file is
+ * rewritten with only the retained events once it holds noticeably more than `maxEvents` lines.
+ *
+ * Single-process only: writes are serialized within this process, but a compaction would drop
+ * events another process appended between reading and replacing the file.
+ */
+export class FileWebhookStorage implements WebhookStorage {
+  // Serializes this process's writes so a compaction never interleaves with an append
+  private writes: Promise<unknown> = Promise.resolve();
+  private appendsSinceCompaction = 0;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly retention: WebhookRetention = DEFAULT_WEBHOOK_RETENTION,
+  ) {}
+
+  push(event: WebhookEvent) {
+    return this.enqueue(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, JSON.stringify(event) + '\n', 'utf8');
+      if (++this.appendsSinceCompaction >= Math.max(20, Math.ceil(this.retention.maxEvents / 2))) {
+        await this.compact();
+      }
+    });
+  }
+
+  async query(query: WebhookEventQuery) {
+    await this.writes;
+    return queryWebhookEvents(retain(await this.readAll(), this.retention), query);
+  }
+
+  clear() {
+    return this.enqueue(async () => {
+      await fs.rm(this.filePath, { force: true });
+      this.appendsSinceCompaction = 0;
+    });
+  }
+
+  private enqueue(task: () => Promise<void>) {
+    const run = this.writes.then(task);
+    // A failed write must not block the ones queued after it
+    this.writes = run.catch(() => {});
+    return run;
+  }
+
+  /** All events in the file, newest first. Unreadable lines (e.g. a torn write) are skipped. */
+  private async readAll(): Promise<WebhookEvent[]> {
+    let text: string;
+    try {
+      text = await fs.readFile(this.filePath, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw err;
+    }
+    const events: WebhookEvent[] = [];
+    for (const line of text.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        events.push(JSON.parse(line));
+      } catch {
+        console.warn('[vapi-webhook] skipping unreadable line in', this.filePath);
+      }
+    }
+    return events.reverse();
+  }
+
+  private async compact() {
+    const kept = retain(await this.readAll(), this.retention);
+    const lines = kept.reverse().map((e) => JSON.stringify(e) + '\n').join('');
+    // Write a temporary file and rename it over the original so readers never see a partial file
+    const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tmpPath, lines, 'utf8');
+    await fs.rename(tmpPath, this.filePath);
+    this.appendsSinceCompaction = 0;
+  }
+}
+
+export interface WebhookStorageConfig {
+  backend: 'memory' | 'file';
+  filePath: string;
+  retention: WebhookRetention;
+}
+
+function envNumber(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/** Storage settings from `VAPI_WEBHOOK_STORE*` environment variables. */
+export function getWebhookStorageConfig(): WebhookStorageConfig {
+  const backend = process.env.VAPI_WEBHOOK_STORE === 'file' ? 'file' : 'memory';
+  if (process.env.VAPI_WEBHOOK_STORE && process.env.VAPI_WEBHOOK_STORE !== backend) {
+    console.warn(`[vapi-webhook] unknown VAPI_WEBHOOK_STORE "${process.env.VAPI_WEBHOOK_STORE}", using memory`);
+  }
+  return {
+    backend,
+    filePath: path.resolve(process.env.VAPI_WEBHOOK_STORE_FILE || '.data/vapi-webhooks.jsonl'),
+    retention: {
+      maxEvents: Math.max(1, Math.floor(envNumber(process.env.VAPI_WEBHOOK_MAX_EVENTS, DEFAULT_WEBHOOK_RETENTION.maxEvents))),
+      maxAgeMs: envNumber(process.env.VAPI_WEBHOOK_MAX_AGE_HOURS, 0) * 60 * 60 * 1000,
+    },
+  };
+}
+
+export function createWebhookStorage(config: WebhookStorageConfig = getWebhookStorageConfig()): WebhookStorage {
+  return config.backend === 'file'
+    ? new FileWebhookStorage(config.filePath, config.retention)
+    : new MemoryWebhookStorage(config.retention);
+}
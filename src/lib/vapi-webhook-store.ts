@@ -1,29 +1,53 @@
-type WebhookEvent = {
-  id: string;
-  receivedAt: string; // ISO
-  // payload will contain either parsed JSON in `parsed` or raw text in `raw`.
-  payload: any;
-  contentType?: string;
-  size?: number; // bytes/characters of the raw body
-  verified?: boolean; // optional signature verification result
-  eventType?: string; // optional convenience field extracted from payload
+import type { WebhookAuthResult } from './vapi-webhook-auth';
+import { matchesWebhookQuery, type WebhookEventQuery } from './vapi-webhook-query';
+import { createWebhookStorage, type WebhookEvent, type WebhookStorage } from './vapi-webhook-storage';
+
+export type WebhookListener = (event: WebhookEvent) => void;
+
+// Kept on globalThis so every route (and the dev server after a hot reload) shares one store and one
+// set of stream listeners. The storage is created on first use so the environment is read at request
+// time, not at build time.
+const shared = globalThis as typeof globalThis & {
+  __vapiWebhookStore?: { storage: WebhookStorage | null; listeners: Set<WebhookListener> };
 };
+const state = (shared.__vapiWebhookStore ??= { storage: null, listeners: new Set() });
 
-const MAX_EVENTS = 200;
+function getStorage() {
+  if (!state.storage) state.storage = createWebhookStorage();
+  return state.storage;
+}
 
-const store: WebhookEvent[] = [];
+/** Replace the storage backend, e.g. with a database-backed `WebhookStorage`. */
+export function setWebhookStorage(next: WebhookStorage) {
+  state.storage = next;
+}
 
 /**
- * Push a webhook event into the in-memory store.
- * Accepts a richer payload object so callers can supply parsed/raw/contentType/verified
+ * Be told about every event stored by this server process from now on. Returns the unsubscribe
+ * function. Events stored by other processes (e.g. sharing the file backend) are not announced.
  */
-export function pushWebhookEvent(stored: {
+export function subscribeToWebhookEvents(listener: WebhookListener) {
+  state.listeners.add(listener);
+  return () => {
+    state.listeners.delete(listener);
+  };
+}
+
+/**
+ * Push a webhook event into the configured store.
+ * Accepts a richer payload object so callers can supply parsed/raw/contentType, the auth result,
+ * the server message type and the reply a handler sent
+ */
+export async function pushWebhookEvent(stored: {
   payload: any;
   contentType?: string;
   size?: number;
-  verified?: boolean;
+  rawBody?: string;
+  auth?: WebhookAuthResult;
+  eventType?: string;
+  reply?: Record<string, unknown>;
 }) {
-  const { payload, contentType, size, verified } = stored;
+  const { payload, contentType, size, rawBody, auth, reply } = stored;
 
   const evt: WebhookEvent = {
     id: Math.random().toString(36).substring(2, 9),
@@ -31,27 +55,55 @@ export function pushWebhookEvent(stored: {
     payload,
     contentType,
     size,
-    verified,
+    rawBody,
+    verified: auth?.verified,
+    authScheme: auth?.verified ? auth.scheme : undefined,
+    authError: auth && !auth.verified ? auth.reason : undefined,
     eventType:
-      (payload && (payload.type || payload.event || payload.eventType)) || undefined,
+      stored.eventType || (payload && (payload.type || payload.event || payload.eventType)) || undefined,
+    reply,
   };
 
-  store.unshift(evt);
-  if (store.length > MAX_EVENTS) store.pop();
+  await getStorage().push(evt);
+  state.listeners.forEach((listener) => {
+    try {
+      listener(evt);
+    } catch (err) {
+      console.warn('[vapi-webhook] stream listener failed:', err);
+    }
+  });
   return evt;
 }
 
-export function listWebhookEvents(limit = 50, sinceIso?: string) {
-  let results = store.slice(0, Math.min(limit, store.length));
-  if (sinceIso) {
-    const since = new Date(sinceIso).toISOString();
-    results = results.filter((e) => e.receivedAt > since).slice(0, Math.min(limit, results.length));
+/** One page of matching events, newest first, with the cursor of the next page. */
+export function listWebhookEvents(query: WebhookEventQuery = {}) {
+  return getStorage().query(query);
+}
+
+/** Stored events with the given IDs, in the order asked for; unknown IDs are skipped. */
+export async function getWebhookEvents(ids: string[]) {
+  const { events } = await getStorage().query({ limit: Number.MAX_SAFE_INTEGER });
+  const byId = new Map(events.map((e) => [e.id, e]));
+  return ids.flatMap((id) => byId.get(id) ?? []);
+}
+
+/**
+ * Events matching `query` received after `lastEventId`, oldest first, for resuming a stream. When
+ * there is no ID, or it is no longer stored (dropped by retention), the latest `query.limit` matching
+ * events are returned instead and `resumed` is false.
+ */
+export async function listWebhookEventsAfter(lastEventId: string | undefined, query: WebhookEventQuery) {
+  const { events: all } = await getStorage().query({ limit: Number.MAX_SAFE_INTEGER });
+  const index = lastEventId ? all.findIndex((e) => e.id === lastEventId) : -1;
+  if (index >= 0) {
+    return { events: all.slice(0, index).filter((e) => matchesWebhookQuery(e, query)).reverse(), resumed: true };
   }
-  return results;
+  const { events } = await getStorage().query({ ...query, cursor: undefined });
+  return { events: events.reverse(), resumed: false };
 }
 
 export function clearWebhookEvents() {
-  store.length = 0;
+  return getStorage().clear();
 }
 
 export type { WebhookEvent };
@@ -0,0 +1,166 @@
+// Records the binary frames of a call's listen WebSocket (16-bit little-endian PCM) and turns them into
+// downloadable WAV files. Interleaved stereo is detected from the samples and also split into one file
+// per channel. Recordings hold object URLs; call `releaseRecording` once a recording is discarded.
+
+export interface WavTrack {
+  label: string;
+  fileName: string;
+  url: string;
+  /** File size in bytes, header included. */
+  size: number;
+}
+
+export interface CallRecording {
+  callId: string;
+  startedAt: string;
+  endedAt: string;
+  sampleRate: number;
+  channels: 1 | 2;
+  durationSeconds: number;
+  /** The full recording first, then one track per channel for stereo recordings. */
+  tracks: WavTrack[];
+}
+
+const WAV_HEADER_BYTES = 44;
+const BYTES_PER_SAMPLE = 2;
+// Samples inspected when guessing the channel layout
+const DETECT_MAX_SAMPLES = 160000;
+// How much larger the jump between neighbouring samples must be than between every second sample
+// before the stream is treated as interleaved stereo
+const STEREO_DIFF_RATIO = 1.5;
+
+/** Wrap raw 16-bit PCM in a WAV (RIFF) container. */
+export function encodeWav(pcm: Uint8Array<ArrayBuffer>, sampleRate: number, channels: 1 | 2): Blob {
+  const header = new ArrayBuffer(WAV_HEADER_BYTES);
+  const view = new DataView(header);
+  const writeText = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeText(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * BYTES_PER_SAMPLE, true); // byte rate
+  view.setUint16(32, channels * BYTES_PER_SAMPLE, true); // block align
+  view.setUint16(34, BYTES_PER_SAMPLE * 8, true); // bits per sample
+  writeText(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+/**
+ * Guess whether PCM is interleaved stereo. In a mono voice stream neighbouring samples are close
+ * together; in interleaved stereo they come from two different signals (often one speaking while the
+ * other is silent), so they jump much more than samples two apart, which belong to the same channel.
+ */
+export function detectStereo(pcm: Uint8Array): boolean {
+  const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const count = Math.min(Math.floor(pcm.byteLength / BYTES_PER_SAMPLE), DETECT_MAX_SAMPLES);
+  if (count < 4) return false;
+
+  let adjacent = 0;
+  let alternate = 0;
+  let previous = view.getInt16(2, true);
+  let beforePrevious = view.getInt16(0, true);
+  for (let i = 2; i < count; i++) {
+    const sample = view.getInt16(i * BYTES_PER_SAMPLE, true);
+    adjacent += Math.abs(sample - previous);
+    alternate += Math.abs(sample - beforePrevious);
+    beforePrevious = previous;
+    previous = sample;
+  }
+  // Silence gives nothing to compare
+  if (alternate === 0) return false;
+  return adjacent > alternate * STEREO_DIFF_RATIO;
+}
+
+/** Split interleaved stereo PCM into left and right mono PCM. */
+export function splitStereo(pcm: Uint8Array): [Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>] {
+  const frameBytes = BYTES_PER_SAMPLE * 2;
+  const frames = Math.floor(pcm.byteLength / frameBytes);
+  const left = new Uint8Array(frames * BYTES_PER_SAMPLE);
+  const right = new Uint8Array(frames * BYTES_PER_SAMPLE);
+  for (let i = 0; i < frames; i++) {
+    const offset = i * frameBytes;
+    left.set(pcm.subarray(offset, offset + BYTES_PER_SAMPLE), i * BYTES_PER_SAMPLE);
+    right.set(pcm.subarray(offset + BYTES_PER_SAMPLE, offset + frameBytes), i * BYTES_PER_SAMPLE);
+  }
+  return [left, right];
+}
+
+/** Revoke the object URLs of a recording that is no longer shown. */
+export function releaseRecording(recording: CallRecording) {
+  recording.tracks.forEach(track => URL.revokeObjectURL(track.url));
+}
+
+export class WavRecorder {
+  readonly callId: string;
+  readonly startedAt = new Date().toISOString();
+  private chunks: Uint8Array[] = [];
+  private length = 0;
+
+  constructor(callId: string) {
+    this.callId = callId;
+  }
+
+  get byteLength() {
+    return this.length;
+  }
+
+  append(frame: ArrayBuffer) {
+    if (frame.byteLength === 0) return;
+    // Copy: the frame's buffer may be reused by whoever else consumes it
+    this.chunks.push(new Uint8Array(frame.slice(0)));
+    this.length += frame.byteLength;
+  }
+
+  /**
+   * Build the WAV files. `channels` forces the layout; otherwise it is detected from the samples.
+   * Returns null when nothing was recorded.
+   */
+  finish(sampleRate: number, channels?: 1 | 2): CallRecording | null {
+    if (this.length < BYTES_PER_SAMPLE) return null;
+
+    const joined = new Uint8Array(this.length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      joined.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    this.chunks = [];
+
+    const layout = channels ?? (detectStereo(joined) ? 2 : 1);
+    // Trim a partial sample (or partial stereo frame) left by a cut-off final frame
+    const frameBytes = BYTES_PER_SAMPLE * layout;
+    const pcm = joined.subarray(0, joined.byteLength - (joined.byteLength % frameBytes));
+
+    const baseName = `call-${this.callId}`;
+    const track = (label: string, fileName: string, data: Uint8Array<ArrayBuffer>, trackChannels: 1 | 2): WavTrack => {
+      const blob = encodeWav(data, sampleRate, trackChannels);
+      return { label, fileName, url: URL.createObjectURL(blob), size: blob.size };
+    };
+
+    const tracks = [track(layout === 2 ? 'Stereo' : 'Mono', `${baseName}.wav`, pcm, layout)];
+    if (layout === 2) {
+      const [left, right] = splitStereo(pcm);
+      tracks.push(track('Left channel', `${baseName}-left.wav`, left, 1));
+      tracks.push(track('Right channel', `${baseName}-right.wav`, right, 1));
+    }
+
+    return {
+      callId: this.callId,
+      startedAt: this.startedAt,
+      endedAt: new Date().toISOString(),
+      sampleRate,
+      channels: layout,
+      durationSeconds: pcm.byteLength / frameBytes / sampleRate,
+      tracks,
+    };
+  }
+}
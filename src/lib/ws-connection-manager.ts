@@ -0,0 +1,329 @@
+// A single WebSocket with explicit connection states, bounded reconnects with exponential backoff,
+// liveness detection (a connection that stops delivering messages is treated as dead) and metrics.
+// All state lives in the manager, so callbacks never see stale values the way closures over React
+// state do.
+
+export type WsConnectionState = 'closed' | 'connecting' | 'open' | 'reconnecting' | 'failed';
+
+export interface WsConnectionMetrics {
+  messagesReceived: number;
+  bytesReceived: number;
+  /** Successful reconnects since `connect()`. */
+  reconnects: number;
+  /** When the current connection opened (ms since epoch). */
+  openedAt?: number;
+  lastMessageAt?: number;
+}
+
+export interface WsConnectionSnapshot {
+  state: WsConnectionState;
+  url: string | null;
+  /** Reconnect attempt in progress or scheduled, 0 while connected. */
+  attempt: number;
+  maxAttempts: number;
+  /** When the next reconnect attempt starts, while `reconnecting`. */
+  nextAttemptAt?: number;
+  lastError?: string;
+  metrics: WsConnectionMetrics;
+}
+
+export type WsLogLevel = 'connection' | 'error';
+
+/**
+ * The parts of a WebSocket the manager uses. A browser `WebSocket` satisfies it; other transports
+ * (such as the listen relay's event stream) can stand in through `createSocket`.
+ */
+export interface WsSocket {
+  readonly readyState: number;
+  binaryType: BinaryType;
+  onopen: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  close(code?: number, reason?: string): void;
+}
+
+export interface WsConnectionOptions {
+  /** Opens the socket for a URL; defaults to a browser `WebSocket`. */
+  createSocket?: (url: string) => WsSocket;
+  binaryType?: BinaryType;
+  /** Give up on a connection attempt after this long. */
+  connectTimeoutMs?: number;
+  /** Reconnect attempts after an unexpected close before the connection is `failed`. */
+  maxReconnectAttempts?: number;
+  /** First reconnect delay; doubles with every attempt up to `maxBackoffMs`. */
+  baseBackoffMs?: number;
+  maxBackoffMs?: number;
+  /** Reconnect when an open connection receives nothing for this long. 0 disables the check. */
+  livenessTimeoutMs?: number;
+  onMessage?: (data: unknown) => void;
+  onStateChange?: (state: WsConnectionState) => void;
+  /** Human-readable connection events, for logs. */
+  onLog?: (level: WsLogLevel, message: string) => void;
+}
+
+type WsConnectionHandlers = Pick<WsConnectionOptions, 'onMessage' | 'onStateChange' | 'onLog'>;
+
+const DEFAULTS = {
+  createSocket: (url: string): WsSocket => new WebSocket(url),
+  binaryType: 'arraybuffer' as BinaryType,
+  connectTimeoutMs: 10000,
+  maxReconnectAttempts: 3,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 15000,
+  livenessTimeoutMs: 30000,
+};
+
+// How often liveness is checked and metrics are published while open
+const TICK_MS = 1000;
+// Normal closure: the server ended the stream on purpose, so there is nothing to reconnect to
+const NORMAL_CLOSURE = 1000;
+// WebSocket readyState values (not read from the global so other transports work too)
+const CONNECTING = 0;
+const OPEN = 1;
+
+const emptyMetrics = (): WsConnectionMetrics => ({ messagesReceived: 0, bytesReceived: 0, reconnects: 0 });
+
+function messageSize(data: unknown): number {
+  if (typeof data === 'string') return data.length;
+  if (data instanceof ArrayBuffer) return data.byteLength;
+  if (typeof Blob !== 'undefined' && data instanceof Blob) return data.size;
+  return 0;
+}
+
+/**
+ * Manages one WebSocket. Subscribe with `subscribe()` (compatible with `useSyncExternalStore`);
+ * messages go to `onMessage` without triggering snapshot updates. Call `dispose()` when done.
+ */
+export class WsConnectionManager {
+  private options: Required<Omit<WsConnectionOptions, keyof WsConnectionHandlers>> & WsConnectionHandlers;
+  private ws: WsSocket | null = null;
+  private url: string | null = null;
+  private state: WsConnectionState = 'closed';
+  private attempt = 0;
+  private nextAttemptAt?: number;
+  private lastError?: string;
+  private metrics = emptyMetrics();
+  private snapshot: WsConnectionSnapshot;
+  private listeners = new Set<() => void>();
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private tickTimer: ReturnType<typeof setInterval> | null = null;
+  private publishedMessages = 0;
+
+  constructor(options: WsConnectionOptions = {}) {
+    this.options = { ...DEFAULTS, ...options };
+    this.snapshot = this.buildSnapshot();
+  }
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.snapshot;
+
+  /** Replace the callbacks, e.g. with ones that close over newer component state. */
+  setHandlers(handlers: WsConnectionHandlers) {
+    this.options = { ...this.options, ...handlers };
+  }
+
+  /** Open a connection to `url`, closing any current one. Resets attempts and metrics. */
+  connect(url: string) {
+    this.teardown();
+    this.url = url;
+    this.attempt = 0;
+    this.lastError = undefined;
+    this.metrics = emptyMetrics();
+    this.open();
+  }
+
+  /** Close the connection on purpose; no reconnect follows. */
+  disconnect() {
+    const wasActive = this.state !== 'closed' && this.state !== 'failed';
+    this.teardown();
+    this.nextAttemptAt = undefined;
+    if (wasActive) this.log('connection', 'WebSocket closed');
+    this.setState('closed');
+  }
+
+  dispose() {
+    this.teardown();
+    this.listeners.clear();
+  }
+
+  private open() {
+    const url = this.url;
+    if (!url) return;
+    this.nextAttemptAt = undefined;
+    this.setState(this.attempt > 0 ? 'reconnecting' : 'connecting');
+    this.log('connection', this.attempt > 0
+      ? `Reconnecting to ${url} (attempt ${this.attempt}/${this.options.maxReconnectAttempts})`
+      : `Connecting to ${url}`);
+
+    let ws: WsSocket;
+    try {
+      ws = this.options.createSocket(url);
+      ws.binaryType = this.options.binaryType;
+    } catch (error) {
+      this.handleFailure(`Failed to create WebSocket: ${error}`);
+      return;
+    }
+    this.ws = ws;
+
+    this.connectTimer = setTimeout(() => {
+      if (this.ws !== ws || ws.readyState !== CONNECTING) return;
+      this.detach(ws);
+      ws.close();
+      this.handleFailure(`Connection timed out after ${this.options.connectTimeoutMs / 1000} seconds`);
+    }, this.options.connectTimeoutMs);
+
+    ws.onopen = () => {
+      if (this.ws !== ws) return;
+      this.clearConnectTimer();
+      if (this.attempt > 0) this.metrics.reconnects++;
+      this.attempt = 0;
+      this.lastError = undefined;
+      this.metrics.openedAt = Date.now();
+      this.metrics.lastMessageAt = undefined;
+      this.startTicking();
+      this.setState('open');
+      this.log('connection', 'WebSocket connected');
+    };
+
+    ws.onmessage = (event: MessageEvent) => {
+      if (this.ws !== ws) return;
+      this.metrics.messagesReceived++;
+      this.metrics.bytesReceived += messageSize(event.data);
+      this.metrics.lastMessageAt = Date.now();
+      this.options.onMessage?.(event.data);
+    };
+
+    ws.onerror = () => {
+      if (this.ws !== ws) return;
+      // The close event that always follows carries the details; just remember something went wrong
+      this.lastError = 'WebSocket error';
+    };
+
+    ws.onclose = (event: CloseEvent) => {
+      if (this.ws !== ws) return;
+      this.detach(ws);
+      if (event.code === NORMAL_CLOSURE) {
+        this.log('connection', `WebSocket closed by the server (code: ${event.code})`);
+        this.setState('closed');
+        return;
+      }
+      this.handleFailure(`WebSocket closed unexpectedly (code: ${event.code}${event.reason ? `, reason: ${event.reason}` : ''})`);
+    };
+  }
+
+  private handleFailure(reason: string) {
+    this.lastError = reason;
+    this.log('error', reason);
+
+    if (this.attempt >= this.options.maxReconnectAttempts) {
+      this.log('error', `Giving up after ${this.options.maxReconnectAttempts} reconnect attempts`);
+      this.setState('failed');
+      return;
+    }
+
+    this.attempt++;
+    const delay = Math.min(this.options.baseBackoffMs * 2 ** (this.attempt - 1), this.options.maxBackoffMs);
+    // Up to 20% jitter so several monitors don't reconnect in lockstep
+    const jittered = Math.round(delay * (1 + Math.random() * 0.2));
+    this.nextAttemptAt = Date.now() + jittered;
+    this.setState('reconnecting');
+    this.log('connection', `Retrying in ${(jittered / 1000).toFixed(1)}s (attempt ${this.attempt}/${this.options.maxReconnectAttempts})`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, jittered);
+  }
+
+  private startTicking() {
+    this.stopTicking();
+    this.tickTimer = setInterval(() => {
+      const ws = this.ws;
+      if (!ws || this.state !== 'open') return;
+
+      const { livenessTimeoutMs } = this.options;
+      const lastActivity = this.metrics.lastMessageAt ?? this.metrics.openedAt ?? Date.now();
+      if (livenessTimeoutMs > 0 && Date.now() - lastActivity > livenessTimeoutMs) {
+        this.detach(ws);
+        ws.close();
+        this.handleFailure(`No messages for ${livenessTimeoutMs / 1000} seconds, connection presumed dead`);
+        return;
+      }
+
+      // Publish metrics at most once per tick instead of on every message
+      if (this.metrics.messagesReceived !== this.publishedMessages) this.emit();
+    }, TICK_MS);
+  }
+
+  private stopTicking() {
+    if (this.tickTimer) {
+      clearInterval(this.tickTimer);
+      this.tickTimer = null;
+    }
+  }
+
+  private clearConnectTimer() {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+
+  /** Stop listening to a socket's events and all timers tied to it. */
+  private detach(ws: WsSocket) {
+    ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+    if (this.ws === ws) this.ws = null;
+    this.clearConnectTimer();
+    this.stopTicking();
+  }
+
+  private teardown() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    const ws = this.ws;
+    if (ws) {
+      this.detach(ws);
+      if (ws.readyState === CONNECTING || ws.readyState === OPEN) ws.close(NORMAL_CLOSURE);
+    }
+    this.clearConnectTimer();
+    this.stopTicking();
+  }
+
+  private setState(state: WsConnectionState) {
+    const changed = state !== this.state;
+    this.state = state;
+    this.emit();
+    if (changed) this.options.onStateChange?.(state);
+  }
+
+  private log(level: WsLogLevel, message: string) {
+    this.options.onLog?.(level, message);
+  }
+
+  private buildSnapshot(): WsConnectionSnapshot {
+    return {
+      state: this.state,
+      url: this.url,
+      attempt: this.attempt,
+      maxAttempts: this.options.maxReconnectAttempts,
+      nextAttemptAt: this.nextAttemptAt,
+      lastError: this.lastError,
+      metrics: { ...this.metrics },
+    };
+  }
+
+  private emit() {
+    this.publishedMessages = this.metrics.messagesReceived;
+    this.snapshot = this.buildSnapshot();
+    this.listeners.forEach(listener => listener());
+  }
+}